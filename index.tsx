@@ -1,37 +1,134 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
-import { GoogleGenAI, Type } from '@google/genai';
-import jsPDF from 'jspdf';
-import html2canvas from 'html2canvas';
+import Markdown, { Components, ExtraProps } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import katex from 'katex';
+import 'katex/dist/katex.min.css';
+import { StudyMaterials, HistoryItem, TranscriptSegment, Flashcard, QuizQuestion, QuizAttempt, QuizAnswerResult, ChatMessage, EditableSection, MaterialsRevision, GenerationStep, Slide, StudyGuideTemplate, TemplateSection, CourseReview, ConceptNode, ConceptLink, ReferenceDocument, VocabularyEntry } from './types';
+import { fillMissingMaterials, GeneratedLecture, generateExamAnswers, generateQuiz, generateStudyMaterials, gradeShortAnswers, PipelineCheckpoint, regenerateSection, segmentsToText } from './services/pipeline';
+import { AUTO_DETECT, DEFAULT_LANGUAGE_OPTIONS, describeLanguage, LanguageOptions, LANGUAGES, SAME_AS_SPOKEN } from './services/languages';
+import { changeSection, changeSections, restoreRevision, SECTION_LABELS, sectionToText, textToSection, undoLastRevision } from './services/revisions';
+import { scoreMultipleChoice } from './services/quiz';
+import { answerLectureQuestion } from './services/chat';
+import { createSearchIndex, SearchMatch, tokenize } from './services/search';
+import { DocumentSection, SECTION_TITLES } from './services/documentBlocks';
+import { canExport, EXPORT_FORMATS, ExportFormat, exportStudyMaterials } from './services/exporters';
+import { createStudyPdf } from './services/pdf';
+import { applyLibraryImport, exportLibrary, findDuplicateLectures, LibraryArchive, LibraryImportMode, readLibraryArchive } from './services/library';
+import {
+    deleteCourseReview, deleteHistoryItem, deletePendingLecture, deleteRecording, getStorageUsage, loadCourseReviews, loadHistory, loadMedia, loadPendingLectures,
+    loadUnfinishedRecordings, saveCourseReview, saveHistoryItem, saveMedia, savePendingLecture, StorageUsage, UnfinishedRecording,
+} from './services/storage';
+import { PipelineErrorKind, toPipelineError } from './services/errors';
+import { BatchItem, BatchItemStatus, BatchQueue, createBatchQueue } from './services/batchQueue';
+import { LiveRecording, RecordingResult, RecordingSource, startLiveRecording, toRecordingFile } from './services/recorder';
+import { buildFlashcards, DueCard, getDueCards, formatInterval, Grade, gradeCard, reconcileFlashcards } from './services/flashcards';
+import { createGeminiProviders, GEMINI_MODELS } from './services/geminiProvider';
+import {
+    BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE, DIFFICULTY_LABELS, hasSection, isBuiltInTemplate, isSameSettings, loadSavedTemplates, loadSelectedTemplate,
+    MAX_QUESTION_COUNT, NOTES_LENGTH_LABELS, NOTES_STYLE_LABELS, storeSavedTemplates, storeSelectedTemplate, TEMPLATE_SECTIONS, templateFor,
+} from './services/templates';
+import { getMediaDuration } from './services/transcription';
+import { createCanvasSlideDetector } from './services/keyframes';
+import { generateCourseReview } from './services/synthesis';
+import { layoutConceptMap } from './services/conceptMap';
+import {
+    addCorrection, correctText, countMatches, FindOptions, loadCourseVocabularies, replaceAll, storeCourseVocabularies, textToVocabulary, vocabularyToText,
+} from './services/corrections';
+import { attachedPdfBytes, MAX_PDF_BYTES, readReferenceFile, REFERENCE_ACCEPT } from './services/references';
 
 const API_KEY = process.env.API_KEY;
 
-// --- INTERFACES ---
-interface GlossaryItem {
-  term: string;
-  definition: string;
-}
+// --- HELPERS ---
 
-interface StudyMaterials {
-  summary: string;
-  keySections: string[];
-  formulas: string[];
-  glossary: GlossaryItem[];
-  examQuestions: string[];
-  transcript: string;
-  detailedNotes: string;
-}
+const formatTimestamp = (totalSeconds: number) => {
+    const seconds = Math.max(0, Math.floor(totalSeconds));
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const s = seconds % 60;
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${pad(m)}:${pad(s)}`;
+};
 
-interface HistoryItem {
-    id: number;
-    filename: string;
-    materials: StudyMaterials;
-}
+const formatBytes = (bytes: number) => {
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+const isMediaFile = (file: File) => file.type.startsWith('audio/') || file.type.startsWith('video/');
+
+const readDirectoryEntries = (reader: FileSystemDirectoryReader) =>
+    new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+
+const readEntryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+    if (entry.isFile) {
+        return [await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject))];
+    }
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const files: File[] = [];
+    // readEntries returns at most ~100 entries per call, so keep reading until it comes back empty.
+    for (let batch = await readDirectoryEntries(reader); batch.length > 0; batch = await readDirectoryEntries(reader)) {
+        for (const child of batch) files.push(...await readEntryFiles(child));
+    }
+    return files;
+};
+
+/** Every file that was dropped, including those inside dropped folders. */
+const collectDroppedFiles = async (dataTransfer: DataTransfer) => {
+    const entries = [...dataTransfer.items].map(item => item.webkitGetAsEntry()).filter((entry): entry is FileSystemEntry => !!entry);
+    if (entries.length === 0) return [...dataTransfer.files];
+    return (await Promise.all(entries.map(readEntryFiles))).flat();
+};
+
+const findSegmentAtTime = (segments: TranscriptSegment[], time: number) => {
+    let found = -1;
+    for (let i = 0; i < segments.length; i++) {
+        if (segments[i].start > time) break;
+        found = i;
+    }
+    return found;
+};
+
+// Finds the segment where a phrase (a glossary term or a key section) was most likely discussed.
+// Exact matches win; otherwise the segment sharing the most significant words is used.
+const findSegmentForText = (segments: TranscriptSegment[], query: string) => {
+    const needle = query.toLowerCase().trim();
+    if (!needle) return -1;
+    const exact = segments.findIndex(segment => segment.text.toLowerCase().includes(needle));
+    if (exact !== -1) return exact;
+
+    const words = new Set(needle.split(/\W+/).filter(word => word.length > 3));
+    if (words.size === 0) return -1;
+    let bestIndex = -1;
+    let bestScore = 0;
+    segments.forEach((segment, index) => {
+        const segmentWords = new Set(segment.text.toLowerCase().split(/\W+/));
+        let score = 0;
+        words.forEach(word => { if (segmentWords.has(word)) score++; });
+        if (score > bestScore) {
+            bestScore = score;
+            bestIndex = index;
+        }
+    });
+    return bestIndex;
+};
 
 
 // --- UI COMPONENTS ---
 
-const Loader = ({ message, progress }: { message: string, progress: number }) => (
+const Loader = ({ message, progress, onCancel }: { message: string, progress: number, onCancel?: () => void }) => (
   <div className="card loader">
     <div className="spinner"></div>
     <p>Your personal AI tutor is hard at work...</p>
@@ -44,12 +141,40 @@ const Loader = ({ message, progress }: { message: string, progress: number }) =>
         <span className="progress-percentage">{Math.round(progress)}%</span>
       </div>
     )}
+    {onCancel && <button className="history-btn delete-btn loader-cancel" onClick={onCancel}>Cancel</button>}
   </div>
 );
 
-const ErrorDisplay = ({ message, onRetry }: { message: string, onRetry?: () => void }) => (
-  <div className="card error-message">
-    <p>Oops! Something went wrong.</p>
+// The heading for each kind of failure, and whether trying again straight away can help.
+const ERROR_KINDS: Record<PipelineErrorKind, { title: string, retryable: boolean }> = {
+    network: { title: "Couldn't reach the AI", retryable: true },
+    server: { title: 'The AI service had a problem', retryable: true },
+    rateLimit: { title: 'The AI is busy right now', retryable: true },
+    quota: { title: 'API quota used up', retryable: false },
+    auth: { title: 'API key rejected', retryable: false },
+    safety: { title: 'The AI declined this lecture', retryable: false },
+    tooLarge: { title: 'This lecture is too large', retryable: false },
+    invalidResponse: { title: "The AI's answer didn't make sense", retryable: true },
+    badMedia: { title: "This recording couldn't be transcribed", retryable: false },
+    cancelled: { title: 'Cancelled', retryable: true },
+    unknown: { title: 'Oops! Something went wrong.', retryable: true },
+};
+
+interface ErrorState {
+  message: string;
+  retryable: boolean;
+  kind?: PipelineErrorKind;
+}
+
+/** The error state for a failed model call, classified so the right heading is shown. */
+const toErrorState = (err: unknown, fallback: string, retryable = false): ErrorState => {
+    const error = toPipelineError(err);
+    return { message: err instanceof Error ? error.message : fallback, kind: error.kind, retryable };
+};
+
+const ErrorDisplay = ({ message, kind = 'unknown', onRetry }: { message: string, kind?: PipelineErrorKind, onRetry?: () => void }) => (
+  <div className={`card error-message error-${kind}`}>
+    <p>{ERROR_KINDS[kind].title}</p>
     <p className="error-details">{message}</p>
     {onRetry && (
         <button onClick={onRetry} className="retry-btn">
@@ -59,165 +184,1832 @@ const ErrorDisplay = ({ message, onRetry }: { message: string, onRetry?: () => v
   </div>
 );
 
-const TranscriptDisplay = ({ transcript }: { transcript: string }) => (
-    <pre>{transcript}</pre>
+const TranscriptDisplay = ({ transcript, segments, originalSegments, activeIndex, onSegmentClick, highlight }: {
+    transcript: string,
+    segments?: TranscriptSegment[],
+    originalSegments?: TranscriptSegment[], // shown side by side with the translation, one per segment
+    activeIndex?: number | null,
+    onSegmentClick?: (segment: TranscriptSegment, index: number) => void,
+    highlight?: string,
+}) => {
+    const listRef = useRef<HTMLOListElement>(null);
+
+    // Keep the active segment visible inside the scrollable list without scrolling the page.
+    useEffect(() => {
+        const list = listRef.current;
+        if (!list || activeIndex == null) return;
+        const item = list.children[activeIndex] as HTMLElement | undefined;
+        if (!item) return;
+        const itemTop = item.offsetTop - list.offsetTop;
+        if (itemTop < list.scrollTop || itemTop + item.offsetHeight > list.scrollTop + list.clientHeight) {
+            list.scrollTo({ top: itemTop - list.clientHeight / 3, behavior: 'smooth' });
+        }
+    }, [activeIndex]);
+
+    // Legacy history entries have no segments, so fall back to the raw text.
+    if (!segments || segments.length === 0) {
+        return <pre><HighlightedText text={transcript} query={highlight} /></pre>;
+    }
+
+    return (
+        <ol className={`transcript-segments ${originalSegments ? 'bilingual' : ''}`} ref={listRef}>
+            {segments.map((segment, index) => (
+                <li key={index} className={`transcript-segment ${activeIndex === index ? 'active' : ''}`} data-search-anchor={`transcript-${index}`}>
+                    <button type="button" className="transcript-segment-btn" onClick={() => onSegmentClick?.(segment, index)}>
+                        <span className="segment-time">{formatTimestamp(segment.start)}</span>
+                        <span className={`segment-speaker speaker-${segment.speaker.toLowerCase()}`}>{segment.speaker}</span>
+                        <span className="segment-text"><HighlightedText text={segment.text} query={highlight} /></span>
+                        {originalSegments?.[index] && (
+                            <span className="segment-text segment-original"><HighlightedText text={originalSegments[index].text} query={highlight} /></span>
+                        )}
+                    </button>
+                </li>
+            ))}
+        </ol>
+    );
+};
+
+/**
+ * Corrects the transcript the study guide is written from (the translation, for translated lectures). Segments
+ * keep their timing and speaker, so only their text can change.
+ */
+const TranscriptEditor = ({ materials, course, vocabulary, onSave, onRemember, onCancel }: {
+    materials: StudyMaterials,
+    course?: string,
+    vocabulary: VocabularyEntry[],
+    onSave: (changes: Pick<StudyMaterials, 'transcript' | 'transcriptSegments'>) => void,
+    onRemember: (mistake: string, term: string) => void,
+    onCancel: () => void,
+}) => {
+    const segments = materials.transcriptSegments?.length ? materials.transcriptSegments : null;
+    const originals = segments ? segments.map(segment => segment.text) : [materials.transcript];
+    const [drafts, setDrafts] = useState(originals);
+    const [find, setFind] = useState('');
+    const [replacement, setReplacement] = useState('');
+    const [findOptions, setFindOptions] = useState<FindOptions>({ matchCase: false, wholeWord: true });
+    const [remember, setRemember] = useState(true);
+    const [notice, setNotice] = useState<string | null>(null);
+    const matchCount = useMemo(() => countMatches(drafts, find, findOptions), [drafts, find, findOptions]);
+    const changedCount = drafts.filter((draft, index) => draft !== originals[index]).length;
+    const hasCorrections = vocabulary.some(entry => entry.mistakes.length > 0);
+
+    const handleReplaceAll = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (matchCount === 0) return;
+        setDrafts(prev => prev.map(text => replaceAll(text, find, replacement, findOptions)));
+        const remembered = remember && !!course && !!replacement.trim();
+        if (remembered) onRemember(find.trim(), replacement.trim());
+        setNotice(`Replaced ${matchCount} match${matchCount === 1 ? '' : 'es'}${remembered ? `, and added "${replacement.trim()}" to the ${course} vocabulary` : ''}.`);
+    };
+
+    const handleApplyVocabulary = () => {
+        const corrected = drafts.map(text => correctText(text, vocabulary));
+        const fixed = corrected.filter((text, index) => text !== drafts[index]).length;
+        setDrafts(corrected);
+        setNotice(fixed > 0 ? `Corrected ${fixed} passage${fixed === 1 ? '' : 's'} with the ${course} vocabulary.` : `Nothing in the ${course} vocabulary needed correcting.`);
+    };
+
+    const handleSave = () => {
+        if (!segments) {
+            onSave({ transcript: drafts[0] });
+            return;
+        }
+        const transcriptSegments = segments.map((segment, index) => ({ ...segment, text: drafts[index].trim() }));
+        onSave({ transcriptSegments, transcript: segmentsToText(transcriptSegments) });
+    };
+
+    return (
+        <div className="transcript-editor">
+            <form className="find-replace" onSubmit={handleReplaceAll}>
+                <input type="search" value={find} onChange={(e) => { setFind(e.target.value); setNotice(null); }} placeholder="Find" aria-label="Find in transcript" autoFocus />
+                <input type="text" value={replacement} onChange={(e) => setReplacement(e.target.value)} placeholder="Replace with" aria-label="Replace with" />
+                <button type="submit" className="history-btn view-btn" disabled={matchCount === 0}>Replace All</button>
+                <div className="find-replace-options">
+                    <label><input type="checkbox" checked={findOptions.matchCase} onChange={(e) => setFindOptions(prev => ({ ...prev, matchCase: e.target.checked }))} /> Match case</label>
+                    <label><input type="checkbox" checked={findOptions.wholeWord} onChange={(e) => setFindOptions(prev => ({ ...prev, wholeWord: e.target.checked }))} /> Whole words</label>
+                    {course && <label><input type="checkbox" checked={remember} onChange={(e) => setRemember(e.target.checked)} /> Fix in future {course} transcripts too</label>}
+                    {find && <span className="match-count">{matchCount} match{matchCount === 1 ? '' : 'es'}</span>}
+                </div>
+            </form>
+            {notice && <p className="library-notice">{notice}</p>}
+            <ol className="transcript-segments transcript-edit-list">
+                {drafts.map((draft, index) => (
+                    <li key={index} className="transcript-segment">
+                        {segments && (
+                            <div className="transcript-edit-meta">
+                                <span className="segment-time">{formatTimestamp(segments[index].start)}</span>
+                                <span className={`segment-speaker speaker-${segments[index].speaker.toLowerCase()}`}>{segments[index].speaker}</span>
+                            </div>
+                        )}
+                        <textarea
+                            value={draft}
+                            onChange={(e) => { const text = e.target.value; setDrafts(prev => prev.map((entry, i) => i === index ? text : entry)); }}
+                            rows={segments ? Math.max(2, Math.ceil(draft.length / 90)) : 20}
+                            aria-label={segments ? `Segment at ${formatTimestamp(segments[index].start)}` : 'Transcript'}
+                        />
+                    </li>
+                ))}
+            </ol>
+            <div className="history-item-actions">
+                {course && hasCorrections && <button type="button" className="history-btn" onClick={handleApplyVocabulary}>Apply {course} Vocabulary</button>}
+                <button type="button" className="history-btn view-btn" onClick={handleSave} disabled={changedCount === 0}>
+                    Save {changedCount > 0 ? `${changedCount} Change${changedCount === 1 ? '' : 's'}` : 'Changes'}
+                </button>
+                <button type="button" className="history-btn" onClick={onCancel}>Cancel</button>
+            </div>
+        </div>
+    );
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Wraps every word starting with a search term in <mark>. */
+const HighlightedText = ({ text, query }: { text: string, query?: string }) => {
+    const terms = query ? tokenize(query) : [];
+    if (terms.length === 0) return <>{text}</>;
+    const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+    return <>{text.split(pattern).map((part, index) => index % 2 === 1 ? <mark key={index}>{part}</mark> : part)}</>;
+};
+
+const SeekableText = ({ text, onLocate, highlight }: { text: string, onLocate?: (query: string) => void, highlight?: string }) => (
+    onLocate
+        ? <button type="button" className="seek-link" onClick={() => onLocate(text)} title="Jump to where this was discussed"><HighlightedText text={text} query={highlight} /></button>
+        : <HighlightedText text={text} query={highlight} />
 );
 
-const StudyNotes = ({ materials }: { materials: StudyMaterials }) => (
+const SECTION_EDIT_HINTS: Record<EditableSection, string> = {
+    summary: 'Plain text.',
+    keySections: 'One topic per line.',
+    formulas: 'One LaTeX formula per line.',
+    glossary: 'One term per line, written as "Term: definition".',
+    examQuestions: 'One question per line.',
+    detailedNotes: 'Markdown, with $...$ for inline math and $$...$$ for equations.',
+};
+
+interface SectionEditing {
+    regeneratingSection: EditableSection | null;
+    onSave: (section: EditableSection, value: StudyMaterials[EditableSection]) => void;
+    onRegenerate: (section: EditableSection, guidance: string) => void;
+}
+
+/** Shows a section with Edit and Regenerate actions; editing swaps the content for a plain-text form. */
+const EditableSectionFrame = ({ title, section, materials, editing, children }: {
+    title?: string,
+    section: EditableSection,
+    materials: StudyMaterials,
+    editing?: SectionEditing,
+    children: React.ReactNode,
+}) => {
+    const [mode, setMode] = useState<'view' | 'edit' | 'regenerate'>('view');
+    const [draft, setDraft] = useState('');
+    const [guidance, setGuidance] = useState('');
+    const isRegenerating = editing?.regeneratingSection === section;
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        editing?.onSave(section, textToSection(section, draft));
+        setMode('view');
+    };
+
+    const handleRegenerate = (e: React.FormEvent) => {
+        e.preventDefault();
+        editing?.onRegenerate(section, guidance.trim());
+        setMode('view');
+    };
+
+    return (
+        <div className="editable-section">
+            <div className={`section-heading ${title ? '' : 'untitled'}`}>
+                {title && <h3>{title}</h3>}
+                {editing && mode === 'view' && (
+                    <div className="section-actions">
+                        <button className="section-action-btn" onClick={() => { setDraft(sectionToText(materials, section)); setMode('edit'); }} disabled={isRegenerating}>
+                            Edit
+                        </button>
+                        <button className="section-action-btn" onClick={() => { setGuidance(''); setMode('regenerate'); }} disabled={!!editing.regeneratingSection}>
+                            {isRegenerating ? 'Regenerating...' : 'Regenerate'}
+                        </button>
+                    </div>
+                )}
+            </div>
+            {mode === 'regenerate' && (
+                <form className="regenerate-form" onSubmit={handleRegenerate}>
+                    <input
+                        type="text"
+                        value={guidance}
+                        placeholder='Optional guidance, e.g. "make it shorter"'
+                        onChange={(e) => setGuidance(e.target.value)}
+                        aria-label={`Guidance for regenerating ${SECTION_LABELS[section]}`}
+                        autoFocus
+                    />
+                    <button type="submit" className="history-btn view-btn">Regenerate</button>
+                    <button type="button" className="history-btn" onClick={() => setMode('view')}>Cancel</button>
+                </form>
+            )}
+            {mode === 'edit' ? (
+                <form className="section-editor" onSubmit={handleSave}>
+                    <textarea
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        rows={section === 'detailedNotes' ? 20 : Math.min(12, Math.max(4, draft.split('\n').length + 1))}
+                        aria-label={`Edit ${SECTION_LABELS[section]}`}
+                    />
+                    <p className="section-editor-hint">{SECTION_EDIT_HINTS[section]}</p>
+                    <div className="history-item-actions">
+                        <button type="submit" className="history-btn view-btn">Save</button>
+                        <button type="button" className="history-btn" onClick={() => setMode('view')}>Cancel</button>
+                    </div>
+                </form>
+            ) : children}
+        </div>
+    );
+};
+
+const StudyNotes = ({ materials, onLocate, highlight, editing }: {
+    materials: StudyMaterials,
+    onLocate?: (query: string) => void,
+    highlight?: string,
+    editing?: SectionEditing,
+}) => (
   <div className="study-notes">
-    <div>
-      <h3>Summary</h3>
-      <p>{materials.summary}</p>
-    </div>
-    <div>
-      <h3>Key Sections</h3>
+    <EditableSectionFrame title="Summary" section="summary" materials={materials} editing={editing}>
+      <p data-search-anchor="summary-0"><HighlightedText text={materials.summary} query={highlight} /></p>
+    </EditableSectionFrame>
+    <EditableSectionFrame title="Key Sections" section="keySections" materials={materials} editing={editing}>
       <ul>
         {materials.keySections.map((item, index) => (
-          <li key={index}>{item}</li>
+          <li key={index}><SeekableText text={item} onLocate={onLocate} highlight={highlight} /></li>
         ))}
       </ul>
-    </div>
-    <div>
-      <h3>Important Formulas</h3>
+    </EditableSectionFrame>
+    <EditableSectionFrame title="Important Formulas" section="formulas" materials={materials} editing={editing}>
       <ul>
         {materials.formulas.map((item, index) => (
-          <li key={index}><code>{item}</code></li>
+          <li key={index}><MathFormula latex={item} /></li>
         ))}
       </ul>
-    </div>
-    <div>
-      <h3>Glossary</h3>
+    </EditableSectionFrame>
+    <EditableSectionFrame title="Glossary" section="glossary" materials={materials} editing={editing}>
       {materials.glossary.map((item, index) => (
-         <p key={index} className="glossary-item"><strong>{item.term}:</strong> {item.definition}</p>
+         <p key={index} className="glossary-item" data-search-anchor={`glossary-${index}`}>
+            <strong><SeekableText text={item.term} onLocate={onLocate} highlight={highlight} />:</strong> <HighlightedText text={item.definition} query={highlight} />
+         </p>
       ))}
-    </div>
-    <div>
-      <h3>Potential Exam Questions</h3>
+    </EditableSectionFrame>
+    <EditableSectionFrame title="Potential Exam Questions" section="examQuestions" materials={materials} editing={editing}>
       <ol>
         {materials.examQuestions.map((item, index) => (
           <li key={index}>{item}</li>
         ))}
       </ol>
-    </div>
+    </EditableSectionFrame>
   </div>
 );
 
-const DetailedNotesDisplay = ({ notes }: { notes: string }) => {
-    // A simple way to format notes. For a richer experience, a markdown parser could be used.
-    const formattedNotes = notes.split('\n').map((line, index) => {
-        line = line.trim();
-        if (line.startsWith('### ')) {
-            return <h4 key={index}>{line.substring(4)}</h4>;
-        }
-        if (line.startsWith('## ')) {
-            return <h3 key={index}>{line.substring(3)}</h3>;
+const describeRevision = (revision: MaterialsRevision) => {
+    const verb = revision.change === 'edit' ? 'Edited' : revision.change === 'regenerate' ? 'Regenerated' : 'Restored';
+    return `${verb} ${SECTION_LABELS[revision.section]}${revision.guidance ? ` ("${revision.guidance}")` : ''}`;
+};
+
+const RevisionHistory = ({ revisions, onUndo, onRestore }: {
+    revisions: MaterialsRevision[],
+    onUndo: () => void,
+    onRestore: (revisionId: number) => void,
+}) => (
+    <details className="revision-history">
+        <summary>Version History ({revisions.length} change{revisions.length === 1 ? '' : 's'})</summary>
+        <button className="history-btn view-btn" onClick={onUndo}>Undo: {describeRevision(revisions[0])}</button>
+        <ul>
+            {revisions.map(revision => (
+                <li key={revision.id}>
+                    <div>
+                        <span>{describeRevision(revision)}</span>
+                        <span className="revision-time">{new Date(revision.timestamp).toLocaleString()}</span>
+                    </div>
+                    <button className="history-btn" onClick={() => onRestore(revision.id)} title="Put this section back the way it was before this change">
+                        Restore Earlier Version
+                    </button>
+                </li>
+            ))}
+        </ul>
+    </details>
+);
+
+const MediaPlayer = ({ file, mediaRef, onTimeUpdate, onReattach }: {
+    file: File | null,
+    mediaRef: React.RefObject<HTMLMediaElement | null>,
+    onTimeUpdate: (time: number) => void,
+    onReattach: (file: File) => void,
+}) => {
+    const [mediaUrl, setMediaUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!file || file.size === 0) {
+            setMediaUrl(null);
+            return;
         }
-        if (line.startsWith('# ')) {
-            return <h2 key={index}>{line.substring(2)}</h2>;
+        const url = URL.createObjectURL(file);
+        setMediaUrl(url);
+        return () => URL.revokeObjectURL(url);
+    }, [file]);
+
+    if (!mediaUrl || !file) {
+        return (
+            <div className="media-player media-missing">
+                <p>The original recording isn't available for this lecture.</p>
+                <label className="history-btn reattach-btn">
+                    Re-attach Recording
+                    <input
+                        type="file"
+                        accept="audio/*,video/*"
+                        style={{ display: 'none' }}
+                        onChange={(e) => { const selected = e.target.files?.[0]; if (selected) onReattach(selected); }}
+                    />
+                </label>
+            </div>
+        );
+    }
+
+    const handleTimeUpdate = (e: React.SyntheticEvent<HTMLMediaElement>) => onTimeUpdate(e.currentTarget.currentTime);
+
+    return (
+        <div className="media-player">
+            {file.type.startsWith('video/')
+                ? <video ref={mediaRef as React.RefObject<HTMLVideoElement>} src={mediaUrl} controls onTimeUpdate={handleTimeUpdate} />
+                : <audio ref={mediaRef as React.RefObject<HTMLAudioElement>} src={mediaUrl} controls onTimeUpdate={handleTimeUpdate} />}
+        </div>
+    );
+};
+
+const GRADE_OPTIONS: { grade: Grade, label: string, className: string }[] = [
+    { grade: 1, label: 'Again', className: 'grade-again' },
+    { grade: 3, label: 'Hard', className: 'grade-hard' },
+    { grade: 4, label: 'Good', className: 'grade-good' },
+    { grade: 5, label: 'Easy', className: 'grade-easy' },
+];
+
+const FlashcardReview = ({ cards, onGrade, onClose }: {
+    cards: DueCard[],
+    onGrade: (historyId: number, card: Flashcard, grade: Grade) => void,
+    onClose: () => void,
+}) => {
+    const [position, setPosition] = useState(0);
+    const [showBack, setShowBack] = useState(false);
+
+    if (position >= cards.length) {
+        return (
+            <div className="flashcard-review review-complete">
+                <p>{cards.length === 0 ? 'No cards to review right now.' : `Session complete! You reviewed ${cards.length} card${cards.length === 1 ? '' : 's'}.`}</p>
+                <button className="history-btn view-btn" onClick={onClose}>Close</button>
+            </div>
+        );
+    }
+
+    const { historyId, lectureName, card } = cards[position];
+
+    const handleGrade = (grade: Grade) => {
+        onGrade(historyId, card, grade);
+        setShowBack(false);
+        setPosition(position + 1);
+    };
+
+    return (
+        <div className="flashcard-review">
+            <div className="flashcard-meta">
+                <span>Card {position + 1} of {cards.length}</span>
+                <span className="flashcard-lecture" title={lectureName}>{lectureName}</span>
+            </div>
+            <button type="button" className={`flashcard ${showBack ? 'flipped' : ''}`} onClick={() => setShowBack(!showBack)}>
+                <span className="flashcard-kind">{card.kind === 'glossary' ? 'Term' : 'Exam Question'}</span>
+                <span className="flashcard-front">{card.front}</span>
+                {showBack
+                    ? <span className="flashcard-back">{card.back || 'No answer available.'}</span>
+                    : <span className="flashcard-hint">Click to reveal the answer</span>}
+            </button>
+            {showBack && (
+                <div className="grade-buttons">
+                    {GRADE_OPTIONS.map(({ grade, label, className }) => (
+                        <button key={grade} className={`grade-btn ${className}`} onClick={() => handleGrade(grade)}>
+                            <span>{label}</span>
+                            <small>{formatInterval(gradeCard(card, grade).interval)}</small>
+                        </button>
+                    ))}
+                </div>
+            )}
+            <button className="history-btn end-review-btn" onClick={onClose}>End Review</button>
+        </div>
+    );
+};
+
+const FlashcardsPanel = ({ item, isCreating, onCreate, onGrade }: {
+    item: HistoryItem | undefined,
+    isCreating: boolean,
+    onCreate: () => void,
+    onGrade: (historyId: number, card: Flashcard, grade: Grade) => void,
+}) => {
+    const [session, setSession] = useState<DueCard[] | null>(null);
+
+    if (!item) {
+        return <p className="flashcards-empty">Flashcards are available once the study guide is saved to your history.</p>;
+    }
+    if (!item.flashcards?.length) {
+        return (
+            <div className="flashcards-empty">
+                <p>Turn this lecture's glossary and exam questions into flashcards, with answers written by your AI tutor.</p>
+                <button className="upload-btn" onClick={onCreate} disabled={isCreating}>
+                    {isCreating ? 'Creating Flashcards...' : 'Create Flashcards'}
+                </button>
+            </div>
+        );
+    }
+    if (session) {
+        return <FlashcardReview cards={session} onGrade={onGrade} onClose={() => setSession(null)} />;
+    }
+
+    const allCards = item.flashcards.map(card => ({ historyId: item.id, lectureName: item.filename, card }));
+    const dueCards = getDueCards([item]);
+    return (
+        <div className="flashcards-overview">
+            <p>{item.flashcards.length} cards in this deck, {dueCards.length} due today.</p>
+            <div className="header-actions">
+                <button className="upload-btn" onClick={() => setSession(dueCards)} disabled={dueCards.length === 0}>Review Due Cards</button>
+                <button className="history-btn view-btn" onClick={() => setSession(allCards)}>Practice All</button>
+            </div>
+        </div>
+    );
+};
+
+const QuizPanel = ({ questions, attempts, onSubmit }: {
+    questions: QuizQuestion[],
+    attempts: QuizAttempt[],
+    onSubmit: (responses: (string | number | null)[]) => Promise<QuizAttempt | null>,
+}) => {
+    const [responses, setResponses] = useState<(string | number | null)[]>(() => questions.map(() => null));
+    const [attempt, setAttempt] = useState<QuizAttempt | null>(null);
+    const [isGrading, setIsGrading] = useState(false);
+
+    const setResponse = (index: number, value: string | number) =>
+        setResponses(prev => prev.map((response, i) => i === index ? value : response));
+
+    const handleSubmit = async () => {
+        setIsGrading(true);
+        const result = await onSubmit(responses);
+        setIsGrading(false);
+        if (result) setAttempt(result);
+    };
+
+    const handleRetake = () => {
+        setResponses(questions.map(() => null));
+        setAttempt(null);
+    };
+
+    return (
+        <div className="quiz">
+            {attempt && (
+                <p className="quiz-score">
+                    You scored {Number(attempt.score.toFixed(1))} / {attempt.maxScore} ({Math.round((attempt.score / attempt.maxScore) * 100)}%)
+                </p>
+            )}
+            <ol className="quiz-questions">
+                {questions.map((question, index) => {
+                    const result = attempt?.results[index];
+                    const status = !result ? '' : result.score >= 1 ? 'correct' : result.score > 0 ? 'partial' : 'incorrect';
+                    return (
+                        <li key={index} className={`quiz-question ${status}`}>
+                            <p className="quiz-question-text">{question.question}</p>
+                            {question.type === 'mcq' ? (
+                                <div className="quiz-options">
+                                    {question.options.map((option, optionIndex) => (
+                                        <label key={optionIndex} className={`quiz-option ${attempt && optionIndex === question.correctIndex ? 'correct-option' : ''}`}>
+                                            <input
+                                                type="radio"
+                                                name={`quiz-question-${index}`}
+                                                checked={responses[index] === optionIndex}
+                                                disabled={!!attempt || isGrading}
+                                                onChange={() => setResponse(index, optionIndex)}
+                                            />
+                                            <span>{option}</span>
+                                        </label>
+                                    ))}
+                                </div>
+                            ) : (
+                                <textarea
+                                    className="quiz-short-answer"
+                                    rows={3}
+                                    placeholder="Type your answer..."
+                                    value={(responses[index] as string | null) ?? ''}
+                                    disabled={!!attempt || isGrading}
+                                    onChange={(e) => setResponse(index, e.target.value)}
+                                />
+                            )}
+                            {result && <p className="quiz-feedback">{result.feedback}</p>}
+                        </li>
+                    );
+                })}
+            </ol>
+            <div className="quiz-actions">
+                {attempt
+                    ? <button className="upload-btn" onClick={handleRetake}>Retake Quiz</button>
+                    : <button className="upload-btn" onClick={handleSubmit} disabled={isGrading || responses.every(response => response === null || response === '')}>
+                        {isGrading ? 'Grading...' : 'Submit Answers'}
+                      </button>}
+            </div>
+            {attempts.length > 0 && (
+                <div className="quiz-attempts">
+                    <h4>Previous Attempts</h4>
+                    <ul>
+                        {attempts.map(previous => (
+                            <li key={previous.id}>
+                                <span>{new Date(previous.id).toLocaleString()}</span>
+                                <span>{Math.round((previous.score / previous.maxScore) * 100)}%</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const ChatPanel = ({ messages, segments, isThinking, onAsk, onCitationClick, onClear }: {
+    messages: ChatMessage[],
+    segments?: TranscriptSegment[],
+    isThinking: boolean,
+    onAsk: (question: string) => void,
+    onCitationClick: (passageIndex: number) => void,
+    onClear: () => void,
+}) => {
+    const [question, setQuestion] = useState('');
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!question.trim() || isThinking) return;
+        onAsk(question.trim());
+        setQuestion('');
+    };
+
+    return (
+        <div className="chat-panel">
+            <div className="tab-panel-header">
+                <h3>Ask About This Lecture</h3>
+                {messages.length > 0 && <button className="history-btn delete-btn" onClick={onClear} disabled={isThinking}>Clear</button>}
+            </div>
+            {messages.length > 0 && (
+                <ul className="chat-messages">
+                    {messages.map((message, index) => (
+                        <li key={index} className={`chat-message ${message.role} ${message.status ?? ''}`}>
+                            {message.status === 'off_topic' && <span className="chat-flag">Off-topic</span>}
+                            {message.status === 'ungrounded' && <span className="chat-flag">Not covered in this lecture</span>}
+                            <p>{message.text}</p>
+                            {!!message.citations?.length && (
+                                <div className="chat-citations">
+                                    {/* Older lectures only have the plain transcript, with nothing to jump to. */}
+                                    {message.citations.map(passageIndex => segments?.[passageIndex] ? (
+                                        <button key={passageIndex} type="button" className="citation-btn" onClick={() => onCitationClick(passageIndex)}>
+                                            {formatTimestamp(segments[passageIndex].start)}
+                                        </button>
+                                    ) : (
+                                        <span key={passageIndex} className="citation-btn citation-label">Line {passageIndex + 1}</span>
+                                    ))}
+                                </div>
+                            )}
+                        </li>
+                    ))}
+                    {isThinking && <li className="chat-message assistant thinking"><p>Thinking...</p></li>}
+                </ul>
+            )}
+            <form className="chat-form" onSubmit={handleSubmit}>
+                <input
+                    type="text"
+                    className="chat-input"
+                    placeholder="e.g. What was the example used to explain entropy?"
+                    value={question}
+                    onChange={(e) => setQuestion(e.target.value)}
+                    disabled={isThinking}
+                />
+                <button type="submit" className="upload-btn" disabled={isThinking || !question.trim()}>Ask</button>
+            </form>
+        </div>
+    );
+};
+
+const HistoryItemEditor = ({ item, courses, onSave, onCancel }: {
+    item: HistoryItem,
+    courses: string[],
+    onSave: (changes: Partial<HistoryItem>) => void,
+    onCancel: () => void,
+}) => {
+    const [title, setTitle] = useState(item.title ?? item.filename);
+    const [course, setCourse] = useState(item.course ?? '');
+    const [tags, setTags] = useState((item.tags ?? []).join(', '));
+    const [lectureDate, setLectureDate] = useState(item.lectureDate ?? '');
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSave({
+            title: title.trim() && title.trim() !== item.filename ? title.trim() : undefined,
+            course: course.trim() || undefined,
+            tags: [...new Set<string>(tags.split(',').map(tag => tag.trim()).filter(Boolean))],
+            lectureDate: lectureDate || undefined,
+        });
+    };
+
+    return (
+        <form className="history-editor" onSubmit={handleSubmit}>
+            <label>
+                Title
+                <input type="text" value={title} onChange={(e) => setTitle(e.target.value)} />
+            </label>
+            <label>
+                Course
+                <input type="text" list="course-options" value={course} placeholder="e.g. PHYS 101" onChange={(e) => setCourse(e.target.value)} />
+                <datalist id="course-options">
+                    {courses.map(option => <option key={option} value={option} />)}
+                </datalist>
+            </label>
+            <label>
+                Tags
+                <input type="text" value={tags} placeholder="Comma-separated, e.g. midterm, thermodynamics" onChange={(e) => setTags(e.target.value)} />
+            </label>
+            <label>
+                Lecture Date
+                <input type="date" value={lectureDate} onChange={(e) => setLectureDate(e.target.value)} />
+            </label>
+            <div className="history-item-actions">
+                <button type="submit" className="history-btn view-btn">Save</button>
+                <button type="button" className="history-btn" onClick={onCancel}>Cancel</button>
+            </div>
+        </form>
+    );
+};
+
+const LibraryImportDialog = ({ archive, duplicateCount, libraryCount, isImporting, onImport, onCancel }: {
+    archive: LibraryArchive,
+    duplicateCount: number,
+    libraryCount: number,
+    isImporting: boolean,
+    onImport: (mode: LibraryImportMode) => void,
+    onCancel: () => void,
+}) => {
+    const total = archive.lectures.length;
+    const newCount = total - duplicateCount;
+    return (
+        <section className="card library-import-dialog">
+            <h2>Import Library Backup</h2>
+            <p>
+                This backup{archive.exportedAt ? ` from ${new Date(archive.exportedAt).toLocaleDateString()}` : ''} contains {total} lecture{total === 1 ? '' : 's'}
+                {duplicateCount > 0 && <>, {duplicateCount} of which {duplicateCount === 1 ? 'is' : 'are'} already in your library</>}.
+            </p>
+            {archive.skipped > 0 && (
+                <p className="library-import-warning">{archive.skipped} lecture{archive.skipped === 1 ? '' : 's'} in the backup could not be read and will be left out.</p>
+            )}
+            <div className="library-import-options">
+                <button className="history-btn view-btn" onClick={() => onImport('merge')} disabled={isImporting || newCount === 0}>
+                    Merge ({newCount === 0 ? 'nothing new' : `add ${newCount}`})
+                </button>
+                <button className="history-btn delete-btn" onClick={() => onImport('replace')} disabled={isImporting || total === 0}>
+                    Replace{libraryCount > 0 ? ` (deletes your ${libraryCount} current lecture${libraryCount === 1 ? '' : 's'})` : ''}
+                </button>
+                <button className="history-btn" onClick={onCancel} disabled={isImporting}>Cancel</button>
+            </div>
+        </section>
+    );
+};
+
+// A minimal view of the HTML syntax tree react-markdown hands to rehype plugins.
+type HastNode = { type: string, value?: string, tagName?: string, properties?: { className?: string[] }, children?: HastNode[] };
+
+/** Rehype plugin that wraps search-term matches in <mark>, leaving code and rendered math alone. */
+const highlightTerms = ({ query }: { query?: string }) => (tree: HastNode) => {
+    const terms = query ? tokenize(query) : [];
+    if (terms.length === 0) return;
+    const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+    const visit = (node: HastNode) => {
+        if (node.tagName === 'code' || node.properties?.className?.some(name => name.startsWith('katex'))) return;
+        node.children = node.children?.flatMap((child): HastNode[] => {
+            if (child.type !== 'text') {
+                visit(child);
+                return [child];
+            }
+            return child.value!.split(pattern).flatMap((part, index): HastNode[] => {
+                if (!part) return [];
+                return index % 2 === 1
+                    ? [{ type: 'element', tagName: 'mark', properties: {}, children: [{ type: 'text', value: part }] }]
+                    : [{ type: 'text', value: part }];
+            });
+        });
+    };
+    visit(tree);
+};
+
+/** Gives a rendered block the search anchor of the markdown line it starts on. */
+const anchored = (tag: string) => ({ node, ...props }: React.HTMLAttributes<HTMLElement> & ExtraProps) =>
+    React.createElement(tag, { ...props, 'data-search-anchor': node?.position ? `detailedNotes-${node.position.start.line - 1}` : undefined });
+
+// Note headings sit below the tab's own heading, so each level is shifted down by one.
+const NOTES_COMPONENTS: Components = {
+    h1: anchored('h2'),
+    h2: anchored('h3'),
+    h3: anchored('h4'),
+    h4: anchored('h5'),
+    h5: anchored('h6'),
+    h6: anchored('h6'),
+    p: anchored('p'),
+    li: anchored('li'),
+    pre: anchored('pre'),
+    blockquote: anchored('blockquote'),
+    tr: anchored('tr'),
+    a: ({ node: _node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" />,
+};
+
+/** Shows a `![Slide N](slide-N)` reference in the notes as the captured slide; clicking it plays the lecture from there. */
+const slideImage = (slides: Slide[], onSeek?: (seconds: number) => void): Components['img'] => ({ src, alt }) => {
+    const slide = slides[Number(String(src).match(/^slide-(\d+)$/)?.[1]) - 1];
+    if (!slide) return src && !String(src).startsWith('slide-') ? <img src={src} alt={alt} /> : null;
+    return (
+        <span className="slide-figure">
+            <button type="button" className="slide-thumbnail" onClick={() => onSeek?.(slide.time)} disabled={!onSeek} aria-label={`Play the lecture from ${alt || 'this slide'}`}>
+                <img src={slide.image} alt={alt || 'Lecture slide'} />
+            </button>
+            <span className="slide-caption">{alt || 'Slide'} · {formatTimestamp(slide.time)}</span>
+        </span>
+    );
+};
+
+/**
+ * Renders the generated notes as GitHub-flavored markdown with LaTeX math. Raw HTML in the notes is never
+ * rendered (react-markdown escapes it and drops unsafe link protocols), so model output can't inject markup.
+ */
+const DetailedNotesDisplay = ({ notes, slides, highlight, onSeek }: { notes: string, slides?: Slide[], highlight?: string, onSeek?: (seconds: number) => void }) => {
+    const components = useMemo(() => ({ ...NOTES_COMPONENTS, img: slideImage(slides ?? [], onSeek) }), [slides, onSeek]);
+    return (
+        <div className="detailed-notes-display markdown-body">
+            <Markdown
+                remarkPlugins={[remarkGfm, remarkMath]}
+                rehypePlugins={[rehypeKatex, [highlightTerms, { query: highlight }]]}
+                components={components}
+            >
+                {notes}
+            </Markdown>
+        </div>
+    );
+};
+
+/** A formula written in LaTeX. Lectures saved before formulas were requested in LaTeX fall back to plain code. */
+const MathFormula = ({ latex }: { latex: string }) => {
+    const source = latex.trim().replace(/^\$\$?([\s\S]*?)\$?\$$/, '$1').replace(/^\\[[(]([\s\S]*)\\[\])]$/, '$1');
+    try {
+        return <span className="math-formula" dangerouslySetInnerHTML={{ __html: katex.renderToString(source, { displayMode: true, throwOnError: true }) }} />;
+    } catch {
+        return <code>{latex}</code>;
+    }
+};
+
+
+const REMAINING_STEP_LABELS: Record<GenerationStep, string> = {
+    transcription: 'transcript',
+    translation: 'translation',
+    slides: 'slides',
+    studyGuide: 'study guide',
+    detailedNotes: 'detailed notes',
+};
+
+const describeUnfinishedSteps = (completedSteps: GenerationStep[]) => {
+    const remaining = (Object.keys(REMAINING_STEP_LABELS) as GenerationStep[])
+        .filter(step => !completedSteps.includes(step))
+        .map(step => REMAINING_STEP_LABELS[step]);
+    const list = remaining.length > 1 ? `${remaining.slice(0, -1).join(', ')} and ${remaining[remaining.length - 1]}` : remaining[0];
+    return `Generation stopped before the ${list} ${remaining.length > 1 ? 'were' : 'was'} finished.`;
+};
+
+const BATCH_STATUS_LABELS: Record<BatchItemStatus, string> = {
+    queued: 'Queued',
+    transcribing: 'Transcribing',
+    summarizing: 'Summarizing',
+    done: 'Done',
+    failed: 'Failed',
+};
+
+const BatchQueuePanel = ({ items, isOnline, onOpen, onRetry, onRemove, onClearFinished }: {
+    items: BatchItem<unknown>[],
+    isOnline: boolean,
+    onOpen: (historyId: number) => void,
+    onRetry: (id: number) => void,
+    onRemove: (id: number) => void,
+    onClearFinished: () => void,
+}) => {
+    const doneCount = items.filter(item => item.status === 'done').length;
+    return (
+        <section className="card batch-section">
+            <div className="batch-header">
+                <h2>Batch Queue</h2>
+                <span className="batch-count">{doneCount} of {items.length} done</span>
+                <button className="history-btn" onClick={onClearFinished} disabled={doneCount === 0}>Clear Finished</button>
+            </div>
+            <ul className="batch-list">
+                {items.map(item => {
+                    const isRunning = item.status === 'transcribing' || item.status === 'summarizing';
+                    return (
+                        <li key={item.id} className={`batch-item batch-${item.status}`}>
+                            <span className="batch-filename" title={item.file.name}>{item.file.name}</span>
+                            <span className="batch-status">
+                                {item.status === 'queued' && !isOnline
+                                    ? 'Waiting for connection'
+                                    : item.retryAt && item.status === 'queued'
+                                    ? `Rate limited, retrying at ${new Date(item.retryAt).toLocaleTimeString()}`
+                                    : BATCH_STATUS_LABELS[item.status]}
+                            </span>
+                            <div className="history-item-actions">
+                                {item.status === 'done' && item.historyId !== undefined && (
+                                    <button className="history-btn view-btn" onClick={() => onOpen(item.historyId!)}>View</button>
+                                )}
+                                {item.status === 'failed' && <button className="history-btn view-btn" onClick={() => onRetry(item.id)}>Retry</button>}
+                                {!isRunning && <button className="history-btn delete-btn" onClick={() => onRemove(item.id)} aria-label={`Remove ${item.file.name} from the queue`}>Remove</button>}
+                            </div>
+                            {item.error && <p className="batch-error">{item.error}</p>}
+                        </li>
+                    );
+                })}
+            </ul>
+        </section>
+    );
+};
+
+const CONCEPT_MAP_WIDTH = 800;
+const CONCEPT_MAP_HEIGHT = 520;
+
+// Each lecture in a review gets its own color in the concept map, and keeps it in the legend.
+const lectureColor = (index: number, count: number) => `hsl(${Math.round((index * 360) / Math.max(1, count))}, 70%, 65%)`;
+
+/** Lecture numbers ("L1", "L2") for whatever a review guide entry came from; each opens its lecture. */
+const LectureChips = ({ ids, lectures, onOpen }: {
+    ids: number[],
+    lectures: CourseReview['lectures'],
+    onOpen: (id: number) => void,
+}) => (
+    <span className="lecture-chips">
+        {ids.map(id => {
+            const index = lectures.findIndex(lecture => lecture.id === id);
+            if (index === -1) return null;
+            return (
+                <button key={id} type="button" className="lecture-chip" style={{ borderColor: lectureColor(index, lectures.length) }} title={lectures[index].title} onClick={() => onOpen(id)}>
+                    L{index + 1}
+                </button>
+            );
+        })}
+    </span>
+);
+
+/**
+ * The concepts of a review guide as a graph. Concepts can be dragged to untangle the layout; selecting one
+ * highlights what it connects to, labels those links and lists the lectures that cover it.
+ */
+const ConceptMap = ({ concepts, links, lectures, onOpenLecture }: {
+    concepts: ConceptNode[],
+    links: ConceptLink[],
+    lectures: CourseReview['lectures'],
+    onOpenLecture: (id: number) => void,
+}) => {
+    const [positions, setPositions] = useState(() => layoutConceptMap(concepts, links, CONCEPT_MAP_WIDTH, CONCEPT_MAP_HEIGHT));
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [draggingId, setDraggingId] = useState<string | null>(null);
+    const svgRef = useRef<SVGSVGElement>(null);
+
+    useEffect(() => {
+        setPositions(layoutConceptMap(concepts, links, CONCEPT_MAP_WIDTH, CONCEPT_MAP_HEIGHT));
+        setSelectedId(null);
+    }, [concepts, links]);
+
+    const selected = concepts.find(concept => concept.id === selectedId);
+    const neighbours = new Set(links.flatMap(link => link.source === selectedId ? [link.target] : link.target === selectedId ? [link.source] : []));
+    const isDimmed = (id: string) => !!selectedId && id !== selectedId && !neighbours.has(id);
+    const colorOf = (concept: ConceptNode) => {
+        const index = lectures.findIndex(lecture => lecture.id === concept.lectureIds[0]);
+        return index === -1 ? '#9ca3af' : lectureColor(index, lectures.length);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+        if (!draggingId || !svgRef.current) return;
+        const bounds = svgRef.current.getBoundingClientRect();
+        const x = Math.min(CONCEPT_MAP_WIDTH, Math.max(0, ((e.clientX - bounds.left) / bounds.width) * CONCEPT_MAP_WIDTH));
+        const y = Math.min(CONCEPT_MAP_HEIGHT, Math.max(0, ((e.clientY - bounds.top) / bounds.height) * CONCEPT_MAP_HEIGHT));
+        setPositions(prev => ({ ...prev, [draggingId]: { x, y } }));
+    };
+
+    return (
+        <div className="concept-map">
+            <svg
+                ref={svgRef}
+                viewBox={`0 0 ${CONCEPT_MAP_WIDTH} ${CONCEPT_MAP_HEIGHT}`}
+                className={draggingId ? 'dragging' : undefined}
+                onPointerMove={handlePointerMove}
+                onPointerUp={() => setDraggingId(null)}
+                onPointerLeave={() => setDraggingId(null)}
+                onClick={(e) => { if (e.target === e.currentTarget) setSelectedId(null); }}
+                role="group"
+                aria-label="Concept map"
+            >
+                <defs>
+                    <marker id="concept-arrow" viewBox="0 0 10 10" refX="22" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                        <path d="M 0 0 L 10 5 L 0 10 z" fill="currentColor" />
+                    </marker>
+                </defs>
+                {links.map((link, index) => {
+                    const from = positions[link.source];
+                    const to = positions[link.target];
+                    if (!from || !to) return null;
+                    const isActive = link.source === selectedId || link.target === selectedId;
+                    return (
+                        <g key={index} className={`concept-link ${isActive ? 'active' : ''} ${selectedId && !isActive ? 'dimmed' : ''}`}>
+                            <line x1={from.x} y1={from.y} x2={to.x} y2={to.y} markerEnd="url(#concept-arrow)" />
+                            {isActive && link.relation && <text x={(from.x + to.x) / 2} y={(from.y + to.y) / 2 - 6} textAnchor="middle">{link.relation}</text>}
+                        </g>
+                    );
+                })}
+                {concepts.map(concept => {
+                    const position = positions[concept.id];
+                    if (!position) return null;
+                    return (
+                        <g
+                            key={concept.id}
+                            className={`concept-node ${concept.id === selectedId ? 'selected' : ''} ${isDimmed(concept.id) ? 'dimmed' : ''} ${concept.lectureIds.length > 1 ? 'shared' : ''}`}
+                            transform={`translate(${position.x}, ${position.y})`}
+                            tabIndex={0}
+                            role="button"
+                            aria-pressed={concept.id === selectedId}
+                            aria-label={concept.label}
+                            onPointerDown={(e) => {
+                                e.currentTarget.ownerSVGElement?.setPointerCapture(e.pointerId);
+                                setDraggingId(concept.id);
+                                setSelectedId(concept.id);
+                            }}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter' || e.key === ' ') {
+                                    e.preventDefault();
+                                    setSelectedId(id => id === concept.id ? null : concept.id);
+                                }
+                            }}
+                        >
+                            <circle r={12} fill={colorOf(concept)} />
+                            <text y={28} textAnchor="middle">{concept.label}</text>
+                        </g>
+                    );
+                })}
+            </svg>
+            <div className="concept-map-footer">
+                <ul className="concept-legend">
+                    {lectures.map((lecture, index) => (
+                        <li key={lecture.id}><span className="legend-swatch" style={{ backgroundColor: lectureColor(index, lectures.length) }} />L{index + 1} {lecture.title}</li>
+                    ))}
+                    <li><span className="legend-swatch shared" />Covered in several lectures</li>
+                </ul>
+                {selected ? (
+                    <p className="concept-details">
+                        <strong>{selected.label}</strong>{selected.lectureIds.length > 0 ? ' — covered in ' : ''}
+                        <LectureChips ids={selected.lectureIds} lectures={lectures} onOpen={onOpenLecture} />
+                    </p>
+                ) : (
+                    <p className="concept-details">Select a concept to see how it connects. Drag concepts to rearrange the map.</p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const CourseReviewView = ({ review, onOpenLecture, onDelete, onClose }: {
+    review: CourseReview,
+    onOpenLecture: (id: number) => void,
+    onDelete: () => void,
+    onClose: () => void,
+}) => (
+    <section className="card course-review">
+        <div className="results-header">
+            <div>
+                <h2>{review.title}</h2>
+                <p className="course-review-meta">Combines {review.lectures.length} lectures · created {new Date(review.id).toLocaleDateString()}</p>
+            </div>
+            <div className="history-item-actions">
+                <button className="history-btn delete-btn" onClick={onDelete}>Delete</button>
+                <button className="history-btn" onClick={onClose}>Close</button>
+            </div>
+        </div>
+        <ol className="course-review-lectures">
+            {review.lectures.map(lecture => (
+                <li key={lecture.id}><button type="button" className="link-btn" onClick={() => onOpenLecture(lecture.id)}>{lecture.title}</button></li>
+            ))}
+        </ol>
+
+        <h3>Overview</h3>
+        {review.summary.split(/\n\s*\n/).map((paragraph, index) => <p key={index}>{paragraph}</p>)}
+
+        <h3>Concept Map</h3>
+        <ConceptMap concepts={review.concepts} links={review.links} lectures={review.lectures} onOpenLecture={onOpenLecture} />
+
+        <h3>Cumulative Exam Questions</h3>
+        <ol className="course-review-questions">
+            {review.examQuestions.map((question, index) => (
+                <li key={index}>
+                    {question.question}
+                    <span className="course-review-source">
+                        {question.topic && <span className="review-topic">{question.topic}</span>}
+                        <LectureChips ids={question.lectureIds} lectures={review.lectures} onOpen={onOpenLecture} />
+                    </span>
+                </li>
+            ))}
+        </ol>
+
+        {review.formulas.length > 0 && (
+            <>
+                <h3>Formulas</h3>
+                <ul className="course-review-formulas">
+                    {review.formulas.map(formula => (
+                        <li key={formula.latex}>
+                            <MathFormula latex={formula.latex} />
+                            <LectureChips ids={formula.lectureIds} lectures={review.lectures} onOpen={onOpenLecture} />
+                        </li>
+                    ))}
+                </ul>
+            </>
+        )}
+
+        {review.glossary.length > 0 && (
+            <>
+                <h3>Glossary</h3>
+                <dl className="course-review-glossary">
+                    {review.glossary.map(item => (
+                        <div key={item.term}>
+                            <dt>{item.term} <LectureChips ids={item.lectureIds} lectures={review.lectures} onOpen={onOpenLecture} /></dt>
+                            <dd>{item.definition}</dd>
+                        </div>
+                    ))}
+                </dl>
+            </>
+        )}
+    </section>
+);
+
+// The course a new lecture belongs to, and that course's vocabulary for transcription. Edited as text like
+// the glossary: one term per line, followed by the ways it has been misheard.
+const CourseVocabularySettings = ({ course, courses, vocabulary, disabled, onCourseChange, onVocabularyChange }: {
+    course: string,
+    courses: string[],
+    vocabulary: VocabularyEntry[],
+    disabled: boolean,
+    onCourseChange: (course: string) => void,
+    onVocabularyChange: (vocabulary: VocabularyEntry[]) => void,
+}) => {
+    const [draft, setDraft] = useState<string | null>(null); // null while the vocabulary isn't being edited
+
+    useEffect(() => setDraft(null), [course]);
+
+    return (
+        <div className="course-vocabulary">
+            <div className="course-vocabulary-header">
+                <label>
+                    Course
+                    <input type="text" list="course-options" value={course} onChange={(e) => onCourseChange(e.target.value)} placeholder="None" disabled={disabled} />
+                </label>
+                <datalist id="course-options">
+                    {courses.map(name => <option key={name} value={name} />)}
+                </datalist>
+                {course.trim() && draft === null && (
+                    <button type="button" className="history-btn" onClick={() => setDraft(vocabularyToText(vocabulary))} disabled={disabled}>
+                        Vocabulary ({vocabulary.length})
+                    </button>
+                )}
+            </div>
+            {draft !== null && (
+                <form className="section-editor" onSubmit={(e) => { e.preventDefault(); onVocabularyChange(textToVocabulary(draft)); setDraft(null); }}>
+                    <textarea
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        rows={Math.min(12, Math.max(4, draft.split('\n').length + 1))}
+                        placeholder={'Schrödinger: Shrodinger, Schroedinger\nProf. Nakamura: Professor Nakamora\neigenvalue'}
+                        aria-label={`Vocabulary for ${course}`}
+                    />
+                    <p className="section-editor-hint">One term per line, spelled correctly. Add the ways it gets misheard after a colon, separated by commas, to have them corrected automatically.</p>
+                    <div className="history-item-actions">
+                        <button type="submit" className="history-btn view-btn">Save</button>
+                        <button type="button" className="history-btn" onClick={() => setDraft(null)}>Cancel</button>
+                    </div>
+                </form>
+            )}
+        </div>
+    );
+};
+
+const REFERENCE_TYPE_LABELS: Record<ReferenceDocument['type'], string> = { pdf: 'PDF', pptx: 'Slides', text: 'Text' };
+
+// Slide decks and readings for the next lecture. They're optional, and only used for a single recording, not a batch.
+const ReferenceAttachments = ({ references, isReading, disabled, onAttach, onRemove }: {
+    references: ReferenceDocument[],
+    isReading: boolean,
+    disabled: boolean,
+    onAttach: (files: File[]) => void,
+    onRemove: (index: number) => void,
+}) => (
+    <div className="reference-attachments">
+        <div className="reference-attachments-header">
+            <span>Slides &amp; readings <span className="reference-hint">(optional: helps with technical terms and notation)</span></span>
+            <button type="button" className="history-btn" onClick={() => document.getElementById('reference-upload')?.click()} disabled={disabled || isReading}>
+                {isReading ? 'Reading...' : 'Attach PDF, PPTX or Text'}
+            </button>
+            <input
+                id="reference-upload"
+                type="file"
+                accept={REFERENCE_ACCEPT}
+                multiple
+                onChange={(e) => { onAttach([...(e.target.files ?? [])]); e.target.value = ''; }}
+                style={{ display: 'none' }}
+            />
+        </div>
+        {references.length > 0 && (
+            <ul className="reference-list">
+                {references.map((reference, index) => (
+                    <li key={`${reference.name}-${index}`}>
+                        <span className="tag-chip">{REFERENCE_TYPE_LABELS[reference.type]}</span>
+                        <span className="reference-name" title={reference.name}>{reference.name}</span>
+                        <button type="button" className="history-btn delete-btn" onClick={() => onRemove(index)} disabled={disabled} aria-label={`Remove ${reference.name}`}>Remove</button>
+                    </li>
+                ))}
+            </ul>
+        )}
+    </div>
+);
+
+// Picks a saved template and, when opened, lets every setting be changed. Changes apply to the next lecture
+// straight away; saving them as a template is optional.
+const TemplateSettings = ({ template, savedTemplates, disabled, onChange, onSave, onDelete }: {
+    template: StudyGuideTemplate,
+    savedTemplates: StudyGuideTemplate[],
+    disabled: boolean,
+    onChange: (template: StudyGuideTemplate) => void,
+    onSave: (template: StudyGuideTemplate) => void,
+    onDelete: (id: string) => void,
+}) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [newName, setNewName] = useState('');
+    const templates = [...BUILT_IN_TEMPLATES, ...savedTemplates];
+    const selected = templates.find(entry => entry.id === template.id);
+    const isModified = !selected || !isSameSettings(selected, template);
+    const isSaved = !isBuiltInTemplate(template.id) && !!selected;
+
+    const update = (changes: Partial<StudyGuideTemplate>) => onChange({ ...template, ...changes });
+
+    const toggleSection = (section: TemplateSection) => {
+        const enabled = hasSection(template, section) ? template.sections.filter(entry => entry !== section) : [...template.sections, section];
+        update({ sections: TEMPLATE_SECTIONS.map(entry => entry.section).filter(entry => enabled.includes(entry)) });
+    };
+
+    const handleSaveAsNew = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newName.trim()) return;
+        onSave({ ...template, id: `saved-${Date.now()}`, name: newName.trim() });
+        setNewName('');
+    };
+
+    return (
+        <div className="template-settings">
+            <div className="template-picker">
+                <label>
+                    Study guide template
+                    <select value={selected ? template.id : ''} onChange={(e) => onChange(templates.find(entry => entry.id === e.target.value) ?? DEFAULT_TEMPLATE)} disabled={disabled}>
+                        {!selected && <option value="">{template.name}</option>}
+                        {templates.map(entry => <option key={entry.id} value={entry.id}>{entry.name}</option>)}
+                    </select>
+                </label>
+                {isModified && <span className="template-modified">Modified</span>}
+                <button type="button" className="history-btn" onClick={() => setIsOpen(open => !open)} aria-expanded={isOpen}>
+                    {isOpen ? 'Hide Settings' : 'Customize'}
+                </button>
+            </div>
+            {isOpen && (
+                <div className="template-editor">
+                    <fieldset className="template-sections" disabled={disabled}>
+                        <legend>Sections (the summary is always included)</legend>
+                        {TEMPLATE_SECTIONS.map(({ section, label }) => (
+                            <label key={section}>
+                                <input type="checkbox" checked={hasSection(template, section)} onChange={() => toggleSection(section)} />
+                                {label}
+                            </label>
+                        ))}
+                    </fieldset>
+                    <div className="template-fields">
+                        <label>
+                            Exam questions
+                            <input type="number" min={1} max={MAX_QUESTION_COUNT} value={template.examQuestionCount} disabled={disabled || !hasSection(template, 'examQuestions')}
+                                onChange={(e) => update({ examQuestionCount: Math.min(MAX_QUESTION_COUNT, Math.max(1, Number(e.target.value) || 1)) })} />
+                        </label>
+                        <label>
+                            Quiz questions
+                            <input type="number" min={1} max={MAX_QUESTION_COUNT} value={template.quizQuestionCount} disabled={disabled || !hasSection(template, 'quiz')}
+                                onChange={(e) => update({ quizQuestionCount: Math.min(MAX_QUESTION_COUNT, Math.max(1, Number(e.target.value) || 1)) })} />
+                        </label>
+                        <label>
+                            Question difficulty
+                            <select value={template.difficulty} disabled={disabled} onChange={(e) => update({ difficulty: e.target.value as StudyGuideTemplate['difficulty'] })}>
+                                {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                            </select>
+                        </label>
+                        <label>
+                            Notes length
+                            <select value={template.notesLength} disabled={disabled || !hasSection(template, 'detailedNotes')} onChange={(e) => update({ notesLength: e.target.value as StudyGuideTemplate['notesLength'] })}>
+                                {Object.entries(NOTES_LENGTH_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                            </select>
+                        </label>
+                        <label>
+                            Notes style
+                            <select value={template.notesStyle} disabled={disabled || !hasSection(template, 'detailedNotes')} onChange={(e) => update({ notesStyle: e.target.value as StudyGuideTemplate['notesStyle'] })}>
+                                {Object.entries(NOTES_STYLE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                            </select>
+                        </label>
+                        <label>
+                            Model
+                            <select value={template.model} disabled={disabled} onChange={(e) => update({ model: e.target.value })}>
+                                {!GEMINI_MODELS.some(model => model.id === template.model) && <option value={template.model}>{template.model}</option>}
+                                {GEMINI_MODELS.map(model => <option key={model.id} value={model.id}>{model.label}</option>)}
+                            </select>
+                        </label>
+                    </div>
+                    <label className="template-instructions">
+                        Custom instructions
+                        <textarea rows={3} value={template.customInstructions} disabled={disabled}
+                            placeholder="e.g. Include every worked example, and explain notation the first time it is used."
+                            onChange={(e) => update({ customInstructions: e.target.value })} />
+                    </label>
+                    <div className="template-actions">
+                        {isSaved && isModified && (
+                            <button type="button" className="history-btn view-btn" onClick={() => onSave(template)}>Save Changes to "{template.name}"</button>
+                        )}
+                        {isSaved && (
+                            <button type="button" className="history-btn delete-btn" onClick={() => onDelete(template.id)}>Delete Template</button>
+                        )}
+                        <form className="template-save-as" onSubmit={handleSaveAsNew}>
+                            <input type="text" value={newName} placeholder="New template name" onChange={(e) => setNewName(e.target.value)} />
+                            <button type="submit" className="history-btn" disabled={!newName.trim()}>Save as Template</button>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const LiveRecorder = ({ disabled, language, onRecordingChange, onFinished }: {
+    disabled: boolean,
+    language?: string, // the spoken language, when chosen rather than detected
+    onRecordingChange: (isRecording: boolean) => void,
+    onFinished: (result: RecordingResult, sessionId: number) => void,
+}) => {
+    const [source, setSource] = useState<RecordingSource>('microphone');
+    const [recording, setRecording] = useState<LiveRecording | null>(null);
+    const [isStarting, setIsStarting] = useState(false);
+    const [isStopping, setIsStopping] = useState(false);
+    const [level, setLevel] = useState(0);
+    const [elapsed, setElapsed] = useState(0);
+    const [liveSegments, setLiveSegments] = useState<TranscriptSegment[]>([]);
+    const [recorderError, setRecorderError] = useState<string | null>(null);
+    const recordingRef = useRef<LiveRecording | null>(null);
+    const transcriptEndRef = useRef<HTMLDivElement | null>(null);
+
+    useEffect(() => {
+        if (!recording) return;
+        const timer = setInterval(() => setElapsed((Date.now() - recording.startedAt) / 1000), 1000);
+        // The audio is recoverable after a crash, but closing the tab by accident still deserves a warning.
+        const warnBeforeUnload = (e: BeforeUnloadEvent) => e.preventDefault();
+        window.addEventListener('beforeunload', warnBeforeUnload);
+        return () => {
+            clearInterval(timer);
+            window.removeEventListener('beforeunload', warnBeforeUnload);
+        };
+    }, [recording]);
+
+    useEffect(() => {
+        transcriptEndRef.current?.scrollIntoView({ block: 'nearest' });
+    }, [liveSegments]);
+
+    const finishRecording = () => {
+        recordingRef.current = null;
+        setRecording(null);
+        setLevel(0);
+        onRecordingChange(false);
+    };
+
+    const handleStop = async () => {
+        const active = recordingRef.current;
+        if (!active) return;
+        setIsStopping(true);
+        try {
+            const result = await active.stop();
+            finishRecording();
+            onFinished(result, active.sessionId);
+        } catch (err) {
+            console.error("Failed to finish the recording", err);
+            setRecorderError(err instanceof Error ? err.message : "Could not finish the recording.");
+            finishRecording();
+        } finally {
+            setIsStopping(false);
         }
-        if (line.startsWith('* ') || line.startsWith('- ')) {
-            return <li key={index}>{line.substring(2)}</li>;
+    };
+
+    const handleStart = async () => {
+        if (!API_KEY) {
+            setRecorderError("API_KEY environment variable is not set.");
+            return;
         }
-        if (line === '') {
-            return <br key={index} />;
+        setIsStarting(true);
+        setRecorderError(null);
+        setLiveSegments([]);
+        setElapsed(0);
+        try {
+            const { transcriber } = createGeminiProviders(API_KEY);
+            const started = await startLiveRecording({
+                source,
+                transcriber,
+                language,
+                onLevel: setLevel,
+                onTranscript: setLiveSegments,
+                onSourceEnded: handleStop,
+            });
+            recordingRef.current = started;
+            setRecording(started);
+            onRecordingChange(true);
+        } catch (err) {
+            console.error("Failed to start recording", err);
+            if (err instanceof DOMException && err.name === 'NotAllowedError') {
+                setRecorderError(source === 'microphone'
+                    ? "Microphone access was blocked. Allow it in your browser's site settings and try again."
+                    : "Sharing was cancelled or blocked.");
+            } else {
+                setRecorderError(err instanceof Error ? err.message : "Could not start recording.");
+            }
+        } finally {
+            setIsStarting(false);
         }
-        return <p key={index}>{line}</p>;
-    });
+    };
+
+    const handleDiscard = () => {
+        recordingRef.current?.cancel();
+        setLiveSegments([]);
+        finishRecording();
+    };
 
     return (
-        <div className="detailed-notes-display">
-            {formattedNotes}
+        <div className="live-recorder">
+            {!recording ? (
+                <div className="record-setup">
+                    <div className="record-sources" role="radiogroup" aria-label="Audio source">
+                        <label>
+                            <input type="radio" name="record-source" checked={source === 'microphone'} onChange={() => setSource('microphone')} />
+                            Microphone
+                        </label>
+                        <label>
+                            <input type="radio" name="record-source" checked={source === 'tab'} onChange={() => setSource('tab')} />
+                            Browser tab audio
+                        </label>
+                    </div>
+                    <button type="button" className="upload-btn" onClick={handleStart} disabled={disabled || isStarting}>
+                        {isStarting ? 'Starting...' : 'Start Recording'}
+                    </button>
+                    <p className="record-hint">The transcript builds up while you record, and your study guide is generated as soon as you stop.</p>
+                </div>
+            ) : (
+                <div className="record-status">
+                    <span className="record-dot" aria-hidden="true" />
+                    <span className="record-elapsed">{formatTimestamp(elapsed)}</span>
+                    <div className="level-meter" role="meter" aria-label="Input level" aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(level * 100)}>
+                        <div className="level-meter-fill" style={{ width: `${Math.round(level * 100)}%` }} />
+                    </div>
+                    <button type="button" className="upload-btn" onClick={handleStop} disabled={isStopping}>
+                        {isStopping ? 'Finishing transcript...' : 'Stop & Generate'}
+                    </button>
+                    <button type="button" className="history-btn delete-btn" onClick={handleDiscard} disabled={isStopping}>Discard</button>
+                </div>
+            )}
+            {recorderError && <p className="record-error">{recorderError}</p>}
+            {(recording || liveSegments.length > 0) && (
+                <div className="live-transcript" aria-live="polite">
+                    {liveSegments.length === 0
+                        ? <p className="live-transcript-empty">The live transcript appears here about a minute into the recording.</p>
+                        : liveSegments.map((segment, index) => (
+                            <p key={index}>
+                                <span className="segment-time">{formatTimestamp(segment.start)}</span>{' '}
+                                <strong>{segment.speaker}:</strong> {segment.text}
+                            </p>
+                        ))}
+                    <div ref={transcriptEndRef} />
+                </div>
+            )}
         </div>
     );
 };
 
 
 // --- MAIN APP COMPONENT ---
+
+// What a lecture is generated with; queued lectures keep the settings they were added with.
+interface GenerationSettings {
+  language: LanguageOptions;
+  template: StudyGuideTemplate;
+  course: string; // '' for none
+  vocabulary: VocabularyEntry[]; // the course's
+  pendingId?: number; // set when it waited for the connection, and so is also kept in IndexedDB until it's done
+}
+
 const App = () => {
   const [mediaFile, setMediaFile] = useState<File | null>(null);
-  const [audioData, setAudioData] = useState<{ data: string, mimeType: string } | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState('');
   const [studyMaterials, setStudyMaterials] = useState<StudyMaterials | null>(null);
-  const [error, setError] = useState<{ message: string; retryable: boolean } | null>(null);
-  const [activeTab, setActiveTab] = useState<'notes' | 'detailed' | 'transcript'>('notes');
+  const [error, setError] = useState<ErrorState | null>(null);
+  const [activeTab, setActiveTab] = useState<'notes' | 'detailed' | 'transcript' | 'flashcards' | 'quiz'>('notes');
   const [isDragging, setIsDragging] = useState(false);
   const [progress, setProgress] = useState(0);
   const [history, setHistory] = useState<HistoryItem[]>([]);
-  const [downloadingSection, setDownloadingSection] = useState<'notes' | 'detailed' | 'transcript' | null>(null);
+  const [downloadingSection, setDownloadingSection] = useState<DocumentSection | 'all' | null>(null);
   const [isCopied, setIsCopied] = useState(false);
+  const [languageOptions, setLanguageOptions] = useState<LanguageOptions>(DEFAULT_LANGUAGE_OPTIONS);
+  const [showOriginalTranscript, setShowOriginalTranscript] = useState(false);
+  const [template, setTemplate] = useState<StudyGuideTemplate>(loadSelectedTemplate);
+  const [savedTemplates, setSavedTemplates] = useState<StudyGuideTemplate[]>(loadSavedTemplates);
+  const [activeSegmentIndex, setActiveSegmentIndex] = useState<number | null>(null);
+  const [currentHistoryId, setCurrentHistoryId] = useState<number | null>(null);
+  const [isCreatingFlashcards, setIsCreatingFlashcards] = useState(false);
+  const [dueReviewCards, setDueReviewCards] = useState<DueCard[] | null>(null);
+  const [isGeneratingQuiz, setIsGeneratingQuiz] = useState(false);
+  const [isAnswering, setIsAnswering] = useState(false);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [highlightQuery, setHighlightQuery] = useState('');
+  const [courseFilter, setCourseFilter] = useState<string | null>(null); // null = all courses, '' = unassigned
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [sortOrder, setSortOrder] = useState<'newest' | 'oldest' | 'lectureDate' | 'title'>('newest');
+  const [editingHistoryId, setEditingHistoryId] = useState<number | null>(null);
+  const [searchIndexVersion, setSearchIndexVersion] = useState(0);
+  const [pendingLibraryImport, setPendingLibraryImport] = useState<{ archive: LibraryArchive, duplicateCount: number } | null>(null);
+  const [isLibraryBusy, setIsLibraryBusy] = useState(false);
+  const [libraryNotice, setLibraryNotice] = useState<string | null>(null);
+  const [regeneratingSection, setRegeneratingSection] = useState<EditableSection | null>(null);
+  const [inputMode, setInputMode] = useState<'upload' | 'record'>('upload');
+  const [isRecording, setIsRecording] = useState(false);
+  // A lecture recorded in the browser (or recovered after a crash), with its live transcript when one is complete.
+  const [recordedLecture, setRecordedLecture] = useState<{ file: File, transcriptSegments: TranscriptSegment[] | null, sessionId: number } | null>(null);
+  const [unfinishedRecordings, setUnfinishedRecordings] = useState<UnfinishedRecording[]>([]);
+  const [batchItems, setBatchItems] = useState<BatchItem<GenerationSettings>[]>([]);
+  const [courseReviews, setCourseReviews] = useState<CourseReview[]>([]);
+  const [activeReview, setActiveReview] = useState<CourseReview | null>(null);
+  const [reviewSelection, setReviewSelection] = useState<number[] | null>(null); // history ids; null when not choosing lectures
+  const [isCreatingReview, setIsCreatingReview] = useState(false);
+  const [references, setReferences] = useState<ReferenceDocument[]>([]);
+  const [isReadingReferences, setIsReadingReferences] = useState(false);
+  const [course, setCourse] = useState('');
+  const [vocabularies, setVocabularies] = useState<Record<string, VocabularyEntry[]>>(loadCourseVocabularies);
+  const [isEditingTranscript, setIsEditingTranscript] = useState(false);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
 
   const progressIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const mediaRef = useRef<HTMLMediaElement | null>(null);
+  const searchIndexRef = useRef(createSearchIndex());
+  const indexedItemsRef = useRef(new Map<number, HistoryItem>());
+  // Ids are timestamps, bumped when two lectures finish in the same millisecond (as they can in a batch).
+  const lastHistoryIdRef = useRef(0);
+  const lastPendingIdRef = useRef(0); // the same, for recordings queued offline
+  const batchQueueRef = useRef<BatchQueue<GenerationSettings> | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // The latest history, including updates React hasn't rendered yet, so updates can be worked out outside setHistory.
+  const historyRef = useRef(history);
+  historyRef.current = history;
+
+  const refreshStorageUsage = () => {
+    getStorageUsage().then(setStorageUsage);
+  };
+
+  // Storage failures never block the study guide on screen; they're surfaced so nothing is lost silently.
+  const reportStorageError = (err: unknown) => {
+    console.error("Study history storage error", err);
+    setError({ message: err instanceof Error ? err.message : "Could not update your study history.", retryable: false });
+  };
 
-  // Load history from localStorage on initial render
   useEffect(() => {
-    try {
-        const savedHistory = localStorage.getItem('studyHistory');
-        if (savedHistory) {
-            setHistory(JSON.parse(savedHistory));
-        }
-    } catch (err) {
-        console.error("Failed to load or parse history from localStorage", err);
-        localStorage.removeItem('studyHistory'); // Clear potentially corrupted data
-    }
+    storeSelectedTemplate(template);
+  }, [template]);
+
+  // Load history from IndexedDB (migrating any legacy localStorage history) on initial render
+  useEffect(() => {
+    loadHistory()
+        .then(({ items, warning }) => {
+            setHistory(items);
+            if (warning) reportStorageError(warning);
+        })
+        .catch(reportStorageError)
+        .finally(refreshStorageUsage);
+    loadUnfinishedRecordings().then(setUnfinishedRecordings).catch(reportStorageError);
+    loadCourseReviews().then(setCourseReviews).catch(reportStorageError);
+    loadPendingLectures<GenerationSettings>()
+        .then(lectures => lectures.forEach(({ id, file, settings }) => {
+            lastPendingIdRef.current = Math.max(lastPendingIdRef.current, id);
+            getBatchQueue().add([file], { ...settings, pendingId: id });
+        }))
+        .catch(reportStorageError);
+  }, []);
+
+  // Lectures queued while offline start as soon as the connection is back.
+  useEffect(() => {
+    const handleOnline = () => {
+        setIsOnline(true);
+        batchQueueRef.current?.wake();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+        window.removeEventListener('online', handleOnline);
+        window.removeEventListener('offline', handleOffline);
+    };
   }, []);
 
-  const handleSaveToHistory = (filename: string, materials: StudyMaterials) => {
+  // Keep the search index in step with the history: only lectures that were added, changed or deleted are re-indexed.
+  useEffect(() => {
+    const index = searchIndexRef.current;
+    const indexed = indexedItemsRef.current;
+    const currentIds = new Set(history.map(item => item.id));
+    let changed = false;
+    indexed.forEach((_, id) => {
+        if (!currentIds.has(id)) {
+            index.remove(id);
+            indexed.delete(id);
+            changed = true;
+        }
+    });
+    history.forEach(item => {
+        if (indexed.get(item.id) !== item) {
+            index.add(item);
+            indexed.set(item.id, item);
+            changed = true;
+        }
+    });
+    if (changed) setSearchIndexVersion(version => version + 1);
+  }, [history]);
+
+  const handleSaveToHistory = (
+    file: File,
+    { materials, language, template, references }: GeneratedLecture,
+    { course, completedSteps, onStored }: { course?: string, completedSteps?: GenerationStep[], onStored?: () => Promise<void> } = {},
+  ) => {
+    const id = Math.max(Date.now(), lastHistoryIdRef.current + 1);
+    lastHistoryIdRef.current = id;
     const newItem: HistoryItem = {
-        id: Date.now(), // Use timestamp as a unique ID
-        filename,
+        id,
+        filename: file.name,
         materials,
+        language,
+        template,
+        references,
+        course,
+        completedSteps,
     };
-    const updatedHistory = [newItem, ...history];
-    setHistory(updatedHistory);
-    localStorage.setItem('studyHistory', JSON.stringify(updatedHistory));
+    historyRef.current = [newItem, ...historyRef.current];
+    setHistory(prevHistory => [newItem, ...prevHistory]);
+    saveHistoryItem(newItem)
+        .then(() => saveMedia(newItem.id, file))
+        .then(onStored)
+        .catch(reportStorageError)
+        .finally(refreshStorageUsage);
+    return newItem.id;
   };
   
   const handleDeleteFromHistory = (id: number) => {
-      const updatedHistory = history.filter(item => item.id !== id);
-      setHistory(updatedHistory);
-      localStorage.setItem('studyHistory', JSON.stringify(updatedHistory));
+      historyRef.current = historyRef.current.filter(item => item.id !== id);
+      setHistory(prevHistory => prevHistory.filter(item => item.id !== id));
+      // Leaving a deleted lecture on screen would let an edit save it again.
+      if (id === currentHistoryId) {
+          setCurrentHistoryId(null);
+          setStudyMaterials(null);
+          setMediaFile(null);
+      }
+      deleteHistoryItem(id).catch(reportStorageError).finally(refreshStorageUsage);
   };
   
-  const handleViewFromHistory = (item: HistoryItem) => {
+  // Takes an updater so callers that awaited a model call don't overwrite newer history state.
+  const handleUpdateHistoryItem = (id: number, changes: Partial<HistoryItem> | ((item: HistoryItem) => Partial<HistoryItem>)) => {
+      const item = historyRef.current.find(entry => entry.id === id);
+      if (!item) return;
+      const updatedItem = { ...item, ...(typeof changes === 'function' ? changes(item) : changes) };
+      historyRef.current = historyRef.current.map(entry => entry.id === id ? updatedItem : entry);
+      setHistory(prevHistory => prevHistory.map(entry => entry.id === id ? updatedItem : entry));
+      saveHistoryItem(updatedItem).catch(reportStorageError);
+  };
+
+  const handleCreateReview = async () => {
+      if (!reviewSelection || reviewSelection.length < 2 || isCreatingReview) return;
+      if (!API_KEY) {
+          setError({ message: "API_KEY environment variable is not set.", retryable: false });
+          return;
+      }
+      // Lectures are combined in the order they were given, so the review follows the course.
+      const lectures = history
+          .filter(item => reviewSelection.includes(item.id) && !item.completedSteps)
+          .sort((a, b) => (a.lectureDate ?? '').localeCompare(b.lectureDate ?? '') || a.id - b.id);
+      const courses = new Set(lectures.map(item => item.course).filter(Boolean));
+      const title = courses.size === 1 ? `${[...courses][0]} review` : 'Course review';
+      setIsCreatingReview(true);
+      setError(null);
+      try {
+          const { llm } = createGeminiProviders(API_KEY);
+          const review = await generateCourseReview(llm, lectures, title);
+          setCourseReviews(prev => [review, ...prev]);
+          setActiveReview(review);
+          setReviewSelection(null);
+          saveCourseReview(review).catch(reportStorageError).finally(refreshStorageUsage);
+          setTimeout(() => document.querySelector('.course-review')?.scrollIntoView({ behavior: 'smooth', block: 'start' }), 100);
+      } catch (err) {
+          console.error(err);
+          setError(toErrorState(err, "Sorry, there was an error creating the review guide."));
+      } finally {
+          setIsCreatingReview(false);
+      }
+  };
+
+  const handleDeleteReview = (id: number) => {
+      setCourseReviews(prev => prev.filter(review => review.id !== id));
+      setActiveReview(prev => prev?.id === id ? null : prev);
+      deleteCourseReview(id).catch(reportStorageError).finally(refreshStorageUsage);
+  };
+
+  const handleOpenReviewLecture = (id: number) => {
+      const item = history.find(entry => entry.id === id);
+      if (!item) {
+          setError({ message: "That lecture is no longer in your study history.", retryable: false });
+          return;
+      }
+      setActiveReview(null);
+      handleViewFromHistory(item);
+  };
+
+  const toggleReviewSelection = (id: number) => {
+      setReviewSelection(prev => prev && (prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id]));
+  };
+
+  const handleExportLibrary = async () => {
+      setIsLibraryBusy(true);
+      setLibraryNotice(null);
+      try {
+          const archive = await exportLibrary(history);
+          downloadBlob(archive, `class-whisper-library-${new Date().toISOString().slice(0, 10)}.zip`);
+      } catch (err) {
+          reportStorageError(err);
+      } finally {
+          setIsLibraryBusy(false);
+      }
+  };
+
+  const handleLibraryFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = ''; // allow choosing the same file again
+      if (!file) return;
+      setIsLibraryBusy(true);
+      setLibraryNotice(null);
+      try {
+          const archive = await readLibraryArchive(file);
+          const duplicates = await findDuplicateLectures(archive, history);
+          setPendingLibraryImport({ archive, duplicateCount: duplicates.size });
+      } catch (err) {
+          reportStorageError(err);
+      } finally {
+          setIsLibraryBusy(false);
+      }
+  };
+
+  const handleApplyLibraryImport = async (mode: LibraryImportMode) => {
+      if (!pendingLibraryImport) return;
+      setIsLibraryBusy(true);
+      try {
+          const imported = await applyLibraryImport(pendingLibraryImport.archive, history, mode);
+          const { items, warning } = await loadHistory();
+          setHistory(items);
+          if (warning) reportStorageError(warning);
+          // A replace may have removed the lecture on screen; it is no longer saved, so stop treating it as such.
+          if (currentHistoryId !== null && !items.some(item => item.id === currentHistoryId)) {
+              setCurrentHistoryId(null);
+              setStudyMaterials(null);
+              setMediaFile(null);
+          }
+          setPendingLibraryImport(null);
+          setLibraryNotice(`Imported ${imported} lecture${imported === 1 ? '' : 's'}.`);
+      } catch (err) {
+          reportStorageError(err);
+      } finally {
+          setIsLibraryBusy(false);
+          refreshStorageUsage();
+      }
+  };
+
+  const handleViewFromHistory = async (item: HistoryItem, match?: SearchMatch) => {
       setStudyMaterials(item.materials);
-      setMediaFile(new File([], item.filename)); // Create a dummy file for the name
-      setActiveTab('notes');
-      // Scroll to results
+      setIsEditingTranscript(false);
+      setCurrentHistoryId(item.id);
+      setActiveSegmentIndex(match?.field === 'transcript' && item.materials.transcriptSegments?.length ? match.location : null);
+      setActiveTab(!match || match.field === 'summary' || match.field === 'glossary' ? 'notes'
+          : match.field === 'detailedNotes' ? 'detailed' : 'transcript');
+      setHighlightQuery(match ? searchQuery : '');
+
+      let storedMedia: File | undefined;
+      try {
+          storedMedia = await loadMedia(item.id);
+      } catch (err) {
+          console.error("Failed to load the stored recording", err);
+      }
+      // Fall back to a dummy file for the name; the player then offers to re-attach the recording.
+      setMediaFile(storedMedia ?? new File([], item.filename));
+      // Scroll to the matching spot when opened from search, otherwise to the top of the results
       setTimeout(() => {
-          document.querySelector('.results-section')?.scrollIntoView({ behavior: 'smooth' });
+          let anchor = match && document.querySelector(`.results-section [data-search-anchor="${match.field}-${match.location}"]`);
+          if (match?.field === 'detailedNotes' && !anchor) {
+              // Lines inside a multi-line block (a paragraph, a code block) are anchored at the block's first line.
+              anchor = [...document.querySelectorAll('.results-section [data-search-anchor^="detailedNotes-"]')]
+                  .filter(element => Number(element.getAttribute('data-search-anchor')!.slice('detailedNotes-'.length)) <= match.location)
+                  .pop() ?? null;
+          }
+          (anchor || document.querySelector('.results-section'))?.scrollIntoView({ behavior: 'smooth', block: anchor ? 'center' : 'start' });
       }, 100);
   };
 
 
-  const processFile = (file: File | undefined) => {
-    if (file) {
-      setMediaFile(file);
-      setStudyMaterials(null);
+  const processFile = (file: File | undefined) => {
+    if (file) {
+      setMediaFile(file);
+      setCurrentHistoryId(null);
+      setHighlightQuery('');
+      setStudyMaterials(null);
+      setError(null);
+      if (!file.type) {
+        setError({ message: "Could not determine the file's format. Please try a different audio or video format.", retryable: false });
+      }
+    }
+  };
+
+  const currentGenerationSettings = (): GenerationSettings =>
+    ({ language: languageOptions, template, course: course.trim(), vocabulary: vocabularies[course.trim()] ?? [] });
+
+  // Offline, recordings wait in the batch queue. They're also kept in IndexedDB, so closing the tab doesn't lose them.
+  // A live recording (`recordingSessionId`) is moved out of its crash-recovery copy rather than kept twice.
+  const keepUntilOnline = (file: File, settings: GenerationSettings, recordingSessionId?: number) => {
+    const pendingId = Math.max(Date.now(), lastPendingIdRef.current + 1);
+    lastPendingIdRef.current = pendingId;
+    savePendingLecture({ id: pendingId, file, settings }, recordingSessionId).catch(reportStorageError).finally(refreshStorageUsage);
+    return pendingId;
+  };
+
+  const queueUntilOnline = (files: File[], recordingSessionId?: number) => {
+    const settings = currentGenerationSettings();
+    files.forEach(file => getBatchQueue().add([file], { ...settings, pendingId: keepUntilOnline(file, settings, recordingSessionId) }));
+  };
+
+  // Several recordings at once go to the batch queue; a single one is opened as usual.
+  const handleSelectedFiles = (files: File[]) => {
+    const recordings = files.filter(isMediaFile);
+    if (files.length > 1) {
+      if (recordings.length === 0) {
+        setError({ message: "None of the selected files are audio or video recordings.", retryable: false });
+        return;
+      }
+      if (navigator.onLine) {
+        getBatchQueue().add(recordings, currentGenerationSettings());
+      } else {
+        queueUntilOnline(recordings);
+      }
+    } else {
+      processFile(files[0]);
+    }
+  };
+
+  const handleAttachReferences = async (files: File[]) => {
+      if (files.length === 0) return;
+      setIsReadingReferences(true);
       setError(null);
-      setAudioData(null); // Reset on new file selection
-
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const result = reader.result as string;
-        const [header, base64Data] = result.split(',', 2);
-        const mimeType = header?.match(/:(.*?);/)?.[1];
-        
-        if (base64Data && mimeType) {
-          setAudioData({ data: base64Data, mimeType });
-        } else {
-           setError({ message: "Could not read the file. Please try a different audio or video format.", retryable: false });
-        }
-      };
-      reader.onerror = () => {
-         setError({ message: "Error reading file. It may be corrupted or in an unsupported format.", retryable: false });
-      };
-      reader.readAsDataURL(file);
-    }
+      const next = [...references];
+      const problems: string[] = [];
+      for (const file of files) {
+          try {
+              const reference = await readReferenceFile(file);
+              // Every PDF goes with each request, so they share one size limit.
+              if (attachedPdfBytes([...next, reference]) > MAX_PDF_BYTES) {
+                  problems.push(`"${file.name}" was not attached: PDFs can be up to ${MAX_PDF_BYTES / 1024 / 1024} MB in total.`);
+              } else {
+                  next.push(reference);
+              }
+          } catch (err) {
+              problems.push(err instanceof Error ? err.message : `Could not read "${file.name}".`);
+          }
+      }
+      setReferences(next);
+      if (problems.length > 0) setError({ message: problems.join(' '), retryable: false });
+      setIsReadingReferences(false);
   };
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    processFile(event.target.files?.[0]);
+    handleSelectedFiles([...(event.target.files ?? [])]);
+    event.target.value = ''; // so picking the same files again still triggers a change
   };
   
   const handleDragEnter = (e: React.DragEvent<HTMLLabelElement>) => {
@@ -241,7 +2033,12 @@ const App = () => {
     event.preventDefault();
     event.stopPropagation();
     setIsDragging(false);
-    processFile(event.dataTransfer.files?.[0]);
+    collectDroppedFiles(event.dataTransfer)
+        .then(handleSelectedFiles)
+        .catch(err => {
+            console.error("Failed to read dropped files", err);
+            setError({ message: "Could not read the dropped files. Please try selecting them instead.", retryable: false });
+        });
   };
 
   useEffect(() => {
@@ -266,13 +2063,14 @@ const App = () => {
     }, 400);
   };
 
-  const handleGenerate = useCallback(async () => {
+  // `resume` is an unfinished lecture from the history; its completed steps are skipped and it is updated in place.
+  const runPipeline = async (file: File | null, recorded: typeof recordedLecture, resume?: HistoryItem) => {
     if (!API_KEY) {
       setError({ message: "API_KEY environment variable is not set.", retryable: false });
       return;
     }
-    if (!audioData || !mediaFile) {
-      setError({ message: "Audio data not ready. Please wait a moment after selecting a file or try re-selecting.", retryable: true });
+    if (!resume && (!file || file.size === 0 || !file.type)) {
+      setError({ message: "Please select an audio or video recording first.", retryable: false });
       return;
     }
 
@@ -283,136 +2081,559 @@ const App = () => {
     
     if (progressIntervalRef.current) clearInterval(progressIntervalRef.current);
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let checkpoint: PipelineCheckpoint | undefined = resume?.completedSteps
+        ? { materials: resume.materials, language: resume.language, completedSteps: resume.completedSteps }
+        : undefined;
+    let historyId = resume?.id ?? null;
+    // A resumed lecture carries on with the settings and references it was started with.
+    const generationTemplate = resume ? templateFor(resume) : template;
+    const generationReferences = resume ? resume.references : references;
+    const generationCourse = resume ? resume.course : course.trim() || undefined;
+
     try {
-      const ai = new GoogleGenAI({ apiKey: API_KEY });
-      const audioPart = {
-        inlineData: {
-          data: audioData.data,
-          mimeType: audioData.mimeType,
-        },
-      };
+      const { transcriber, llm } = createGeminiProviders(API_KEY, generationTemplate.model);
+      const duration = file && !checkpoint ? await getMediaDuration(file) : 0;
+      // A resumed video lecture may still need its slides captured, which takes the recording.
+      const media = file ?? (resume && !resume.completedSteps?.includes('slides') ? await loadMedia(resume.id).catch(() => undefined) : undefined);
 
-      // --- Step 1: Transcription ---
-      setLoadingMessage(`Step 1/3: Transcribing audio...`);
-      startProgressSimulation();
-      
-      const transcriptionPrompt = `Transcribe the provided audio lecture precisely into English. Return only the raw text of the English transcript, and nothing else.`;
-      
-      const transcriptionResult = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: { parts: [audioPart, { text: transcriptionPrompt }] },
+      const lecture = await generateStudyMaterials({
+        file: media,
+        duration,
+        transcriber,
+        llm,
+        slideDetector: createCanvasSlideDetector(),
+        template: generationTemplate,
+        references: generationReferences,
+        vocabulary: generationCourse ? vocabularies[generationCourse] : undefined,
+        transcriptSegments: recorded?.transcriptSegments ?? undefined,
+        language: languageOptions,
+        resumeFrom: checkpoint,
+        signal: controller.signal,
+        onCheckpoint: (latest) => { checkpoint = latest; },
+        onStep: (step) => {
+          if (progressIntervalRef.current) clearInterval(progressIntervalRef.current);
+          setProgress(0);
+          if (step === 'transcription') {
+            setLoadingMessage('Step 1/3: Transcribing audio...');
+          } else if (step === 'translation') {
+            setLoadingMessage('Step 1/3: Translating the transcript...');
+            startProgressSimulation();
+          } else if (step === 'slides') {
+            setLoadingMessage('Step 2/3: Capturing slides and whiteboard from the video...');
+          } else if (step === 'studyGuide') {
+            setLoadingMessage('Step 2/3: Analyzing transcript and generating study guide...');
+            startProgressSimulation();
+          } else {
+            setLoadingMessage('Step 3/3: Composing detailed lecture notes...');
+            startProgressSimulation();
+          }
+        },
+        onSlideProgress: (fraction) => {
+          setProgress(fraction * 100);
+          if (fraction >= 1) {
+            setLoadingMessage('Step 2/3: Reading the slides...');
+            setProgress(0);
+            startProgressSimulation();
+          }
+        },
+        onTranscriptionProgress: ({ stage, completedChunks, totalChunks }) => {
+          if (stage === 'uploading') {
+            setLoadingMessage('Step 1/3: Uploading recording...');
+          } else if (stage === 'processing') {
+            setLoadingMessage('Step 1/3: Preparing recording for transcription...');
+          } else {
+            setLoadingMessage(totalChunks > 1
+              ? `Step 1/3: Transcribing audio (${completedChunks}/${totalChunks} parts done)...`
+              : 'Step 1/3: Transcribing audio...');
+            setProgress(totalChunks > 0 ? (completedChunks / totalChunks) * 100 : 0);
+          }
+        },
       });
-      
-      if (progressIntervalRef.current) clearInterval(progressIntervalRef.current);
-      setProgress(100);
-      const transcript = transcriptionResult.text;
-      if (!transcript?.trim()) {
-        throw new Error("Transcription failed: The model returned an empty transcript. The audio might be silent or in an unsupported format.");
-      }
-      await new Promise(resolve => setTimeout(resolve, 500));
 
-      // --- Step 2: Study Guide Generation ---
-      setLoadingMessage('Step 2/3: Analyzing transcript and generating study guide...');
-      setProgress(0);
-      startProgressSimulation();
-      
-      const studyGuideSchema = {
-          type: Type.OBJECT,
-          properties: {
-              summary: { type: Type.STRING },
-              keySections: { type: Type.ARRAY, items: { type: Type.STRING } },
-              formulas: { type: Type.ARRAY, items: { type: Type.STRING } },
-              glossary: {
-                  type: Type.ARRAY,
-                  items: {
-                      type: Type.OBJECT, properties: { term: { type: Type.STRING }, definition: { type: Type.STRING }},
-                      propertyOrdering: ["term", "definition"],
-                  }
-              },
-              examQuestions: { type: Type.ARRAY, items: { type: Type.STRING } }
-          },
-          propertyOrdering: ["summary", "keySections", "formulas", "glossary", "examQuestions"],
-      };
-
-      const studyGuideResult = await ai.models.generateContent({
-          model: "gemini-2.5-flash",
-          contents: { parts: [{ text: `Based on the following transcription of a lecture, generate a comprehensive study guide. The output must be a single, valid JSON object.\n\nThe JSON object must contain these fields:\n1. "summary": A concise summary of the entire lecture.\n2. "keySections": A bulleted list of the main topics discussed.\n3. "formulas": A list of all formulas mentioned. If none, return an empty array.\n4. "glossary": A list of key terms and their definitions. Each item should be an object with "term" and "definition" properties. If none, return an empty array.\n5. "examQuestions": A list of 3-5 potential exam questions based on the content.\n\nHere is the transcript:\n---\n${transcript}\n---` }] },
-          config: { responseMimeType: "application/json", responseSchema: studyGuideSchema }
-      });
-      if (progressIntervalRef.current) clearInterval(progressIntervalRef.current);
-      setProgress(100);
+      setStudyMaterials(lecture.materials);
+      setActiveSegmentIndex(null);
+      if (historyId !== null) {
+        handleUpdateHistoryItem(historyId, { ...lecture, completedSteps: undefined });
+      } else {
+        // Once the recording is safely in the history, its crash-recovery copy is no longer needed.
+        historyId = handleSaveToHistory(file!, lecture, { course: generationCourse, onStored: recorded ? () => deleteRecording(recorded.sessionId) : undefined });
+      }
+      setCurrentHistoryId(historyId);
+      setActiveTab('notes');
+      if (!resume) setReferences([]); // they're saved with the lecture
 
-      let parsedStudyGuide;
-      try {
-        let jsonText = studyGuideResult.text.trim();
-        // Handle markdown code blocks
-        if (jsonText.startsWith('```json')) {
-            jsonText = jsonText.slice(7, -3).trim();
-        } else if (jsonText.startsWith('```')) {
-            jsonText = jsonText.slice(3, -3).trim();
+    } catch (err) {
+      // Keep whatever was finished (at least the transcript), so the lecture can be completed later
+      // without transcribing it again.
+      if (checkpoint?.completedSteps.includes('transcription')) {
+        const partial = {
+            materials: fillMissingMaterials(checkpoint.materials),
+            language: checkpoint.language!,
+            template: generationTemplate,
+            references: generationReferences,
+            completedSteps: checkpoint.completedSteps,
+        };
+        if (historyId !== null) {
+          handleUpdateHistoryItem(historyId, partial);
+        } else {
+          historyId = handleSaveToHistory(file!, partial, {
+              course: generationCourse,
+              completedSteps: partial.completedSteps,
+              onStored: recorded ? () => deleteRecording(recorded.sessionId) : undefined,
+          });
         }
-        parsedStudyGuide = JSON.parse(jsonText);
-      } catch (e) {
-        console.error("JSON parsing error:", e);
-        console.error("Original text from API:", studyGuideResult.text);
-        throw new Error("Failed to process the study guide from the AI. The response was not in the expected JSON format. Please try again.");
+        setStudyMaterials(partial.materials);
+        setCurrentHistoryId(historyId);
+        setActiveSegmentIndex(null);
+        setActiveTab('transcript');
       }
-      
-      await new Promise(resolve => setTimeout(resolve, 500));
+      if (controller.signal.aborted) return;
 
-      // --- Step 3: Detailed Notes Generation ---
-      setLoadingMessage('Step 3/3: Composing detailed lecture notes...');
+      console.error(err);
+      const { kind } = toPipelineError(err);
+      setError(toErrorState(err, "An unknown error occurred. Please check the developer console for more details.", ERROR_KINDS[kind].retryable));
+    } finally {
+      if (progressIntervalRef.current) clearInterval(progressIntervalRef.current);
+      abortControllerRef.current = null;
+      setIsProcessing(false);
+      setLoadingMessage('');
       setProgress(0);
-      startProgressSimulation();
+    }
+  };
 
-      const detailedNotesPrompt = `Transform the following lecture transcript into a set of high-quality, detailed study notes. The notes should be well-structured, easy to read, and capture the essence of the lecture. Do not just reformat the transcript. Instead, synthesize the information, organize it logically under clear headings, and use bullet points to break down complex topics. Focus on key concepts, definitions, examples, and conclusions. The final output should be formatted in clean markdown.
+  // Saving a template with the id of an existing one replaces it.
+  const handleSaveTemplate = (saved: StudyGuideTemplate) => {
+    setSavedTemplates(prev => {
+      const next = prev.some(entry => entry.id === saved.id) ? prev.map(entry => entry.id === saved.id ? saved : entry) : [...prev, saved];
+      storeSavedTemplates(next);
+      return next;
+    });
+    setTemplate(saved);
+  };
 
-      Transcript:
-      ---
-      ${transcript}
-      ---`;
+  const handleDeleteTemplate = (id: string) => {
+    setSavedTemplates(prev => {
+      const next = prev.filter(entry => entry.id !== id);
+      storeSavedTemplates(next);
+      return next;
+    });
+    if (template.id === id) setTemplate(DEFAULT_TEMPLATE);
+  };
 
-      const detailedNotesResult = await ai.models.generateContent({
-          model: "gemini-2.5-flash",
-          contents: { parts: [{ text: detailedNotesPrompt }] },
-      });
+  const handleCancelGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
 
-      if (progressIntervalRef.current) clearInterval(progressIntervalRef.current);
-      setProgress(100);
-      
-      const finalMaterials: StudyMaterials = {
-        ...parsedStudyGuide,
-        transcript: transcript,
-        detailedNotes: detailedNotesResult.text,
-      };
-
-      setStudyMaterials(finalMaterials);
-      handleSaveToHistory(mediaFile.name, finalMaterials);
-      setActiveTab('notes');
+  const handleResumeGeneration = (item: HistoryItem) => {
+    if (isProcessing) return;
+    if (item.id !== currentHistoryId) handleViewFromHistory(item); // brings up its recording
+    runPipeline(null, null, item);
+  };
+
+  // After a failure that left a partial lecture behind, "Try Again" picks up from the step that failed.
+  const handleRetry = () => {
+    const unfinished = history.find(item => item.id === currentHistoryId && item.completedSteps);
+    if (unfinished) {
+      handleResumeGeneration(unfinished);
+    } else {
+      handleGenerate();
+    }
+  };
+
+  const getBatchQueue = () => {
+    batchQueueRef.current ??= createBatchQueue<GenerationSettings>({
+      onChange: setBatchItems,
+      isOnline: () => navigator.onLine,
+      // Lectures that lose the connection part-way are kept in IndexedDB too, like ones queued while offline.
+      onWaitForNetwork: ({ file, options }) => options.pendingId === undefined ? { ...options, pendingId: keepUntilOnline(file, options) } : options,
+      process: async ({ file, options }, setStatus) => {
+        if (!API_KEY) throw new Error("API_KEY environment variable is not set.");
+        const { transcriber, llm } = createGeminiProviders(API_KEY, options.template.model);
+        const lecture = await generateStudyMaterials({
+          file,
+          duration: await getMediaDuration(file),
+          transcriber,
+          llm,
+          slideDetector: createCanvasSlideDetector(),
+          template: options.template,
+          vocabulary: options.vocabulary,
+          language: options.language,
+          onStep: step => setStatus(step === 'transcription' || step === 'translation' ? 'transcribing' : 'summarizing'),
+        });
+        return handleSaveToHistory(file, lecture, {
+          course: options.course || undefined,
+          onStored: options.pendingId === undefined ? undefined : () => deletePendingLecture(options.pendingId!),
+        });
+      },
+    });
+    return batchQueueRef.current;
+  };
+
+  const handleRemoveFromBatch = (id: number) => {
+    const pendingId = batchItems.find(item => item.id === id)?.options.pendingId;
+    getBatchQueue().remove(id);
+    if (pendingId !== undefined) deletePendingLecture(pendingId).catch(reportStorageError).finally(refreshStorageUsage);
+  };
+
+  const handleOpenBatchLecture = (historyId: number) => {
+    const item = history.find(entry => entry.id === historyId);
+    if (item) handleViewFromHistory(item);
+  };
+
+  const handleGenerate = useCallback(() => {
+    if (!mediaFile) {
+      setError({ message: "Please select an audio or video recording first.", retryable: false });
+      return;
+    }
+    if (!navigator.onLine) {
+      queueUntilOnline([mediaFile], recordedLecture?.file === mediaFile ? recordedLecture.sessionId : undefined);
+      return;
+    }
+    runPipeline(mediaFile, recordedLecture?.file === mediaFile ? recordedLecture : null);
+  }, [mediaFile, recordedLecture, languageOptions, template, references, course, vocabularies, history]);
+
+  const handleRecordingFinished = (result: RecordingResult, sessionId: number) => {
+    const recorded = { file: result.file, transcriptSegments: result.transcriptSegments, sessionId };
+    setRecordedLecture(recorded);
+    processFile(result.file);
+    if (navigator.onLine) {
+      runPipeline(result.file, recorded);
+    } else {
+      queueUntilOnline([result.file], sessionId);
+    }
+  };
+
+  const handleRecoverRecording = (recording: UnfinishedRecording) => {
+    const file = toRecordingFile(recording.data, recording.sessionId);
+    setUnfinishedRecordings(prev => prev.filter(entry => entry.sessionId !== recording.sessionId));
+    setRecordedLecture({ file, transcriptSegments: null, sessionId: recording.sessionId });
+    setInputMode('upload');
+    processFile(file);
+  };
+
+  const handleDiscardRecording = (sessionId: number) => {
+    setUnfinishedRecordings(prev => prev.filter(entry => entry.sessionId !== sessionId));
+    deleteRecording(sessionId).catch(reportStorageError).finally(refreshStorageUsage);
+  };
+  
+  const handleMediaTimeUpdate = (time: number) => {
+    const segments = studyMaterials?.transcriptSegments;
+    if (!segments?.length) return;
+    const index = findSegmentAtTime(segments, time);
+    setActiveSegmentIndex(index === -1 ? null : index);
+  };
+
+  const seekTo = useCallback((seconds: number) => {
+    const media = mediaRef.current;
+    if (!media) return;
+    media.currentTime = seconds;
+    media.play().catch(err => console.error("Playback failed", err));
+  }, []);
+
+  const handleSegmentClick = (segment: TranscriptSegment, index: number) => {
+    setActiveSegmentIndex(index);
+    seekTo(segment.start);
+  };
 
+  const handleLocate = (query: string) => {
+    const segments = studyMaterials?.transcriptSegments;
+    if (!segments?.length) return;
+    const index = findSegmentForText(segments, query);
+    if (index !== -1) handleSegmentClick(segments[index], index);
+  };
+
+  const handleReattachMedia = (file: File) => {
+    setMediaFile(file);
+    if (currentHistoryId !== null) {
+        saveMedia(currentHistoryId, file).catch(reportStorageError).finally(refreshStorageUsage);
+    }
+  };
+
+  const handleCreateFlashcards = async () => {
+    const item = history.find(entry => entry.id === currentHistoryId);
+    if (!item || isCreatingFlashcards) return;
+    if (!API_KEY) {
+      setError({ message: "API_KEY environment variable is not set.", retryable: false });
+      return;
+    }
+
+    setIsCreatingFlashcards(true);
+    setError(null);
+    try {
+        const { llm } = createGeminiProviders(API_KEY, templateFor(item).model);
+        const answers = await generateExamAnswers(llm, item.materials.transcript, item.materials.examQuestions);
+        handleUpdateHistoryItem(item.id, { flashcards: buildFlashcards(item.materials, answers) });
     } catch (err) {
-      console.error(err);
-      let isRetryable = true;
-      let errorMessage = "An unknown error occurred. Please check the developer console for more details.";
-      if (err instanceof Error) {
-          if (err.message.includes("xhr error") || err.message.includes("500")) {
-              errorMessage = "A network error occurred while communicating with the AI. Please check your internet connection.";
-          } else if (err.message.includes("Transcription failed")) {
-              errorMessage = err.message;
-              isRetryable = false;
-          } else {
-              errorMessage = err.message;
-          }
-      }
-      setError({ message: errorMessage, retryable: isRetryable });
+        console.error("Failed to create flashcards", err);
+        setError(toErrorState(err, "Sorry, there was an error creating the flashcards."));
     } finally {
-      if (progressIntervalRef.current) clearInterval(progressIntervalRef.current);
-      setIsProcessing(false);
-      setLoadingMessage('');
-      setProgress(0);
+        setIsCreatingFlashcards(false);
     }
-  }, [audioData, mediaFile, history]);
-  
+  };
+
+  const handleGradeFlashcard = (historyId: number, card: Flashcard, grade: Grade) => {
+    const graded = gradeCard(card, grade);
+    handleUpdateHistoryItem(historyId, item => ({
+        flashcards: item.flashcards?.map(existing => existing.id === card.id ? graded : existing),
+    }));
+  };
+
+  const handleGenerateQuiz = async () => {
+    if (!studyMaterials || isGeneratingQuiz) return;
+    if (!API_KEY) {
+      setError({ message: "API_KEY environment variable is not set.", retryable: false });
+      return;
+    }
+
+    setIsGeneratingQuiz(true);
+    setError(null);
+    try {
+        const lectureTemplate = templateFor(history.find(item => item.id === currentHistoryId));
+        const { llm } = createGeminiProviders(API_KEY, lectureTemplate.model);
+        const quiz = await generateQuiz(llm, studyMaterials.transcript, lectureTemplate);
+        const updatedMaterials = { ...studyMaterials, quiz };
+        setStudyMaterials(updatedMaterials);
+        if (currentHistoryId !== null) {
+            handleUpdateHistoryItem(currentHistoryId, { materials: updatedMaterials });
+        }
+    } catch (err) {
+        console.error("Failed to generate quiz", err);
+        setError(toErrorState(err, "Sorry, there was an error creating the quiz."));
+    } finally {
+        setIsGeneratingQuiz(false);
+    }
+  };
+
+  // Section edits go through the history item so every change lands in its version history.
+  const applyMaterialsChange = (historyId: number, update: (item: HistoryItem) => Pick<HistoryItem, 'materials' | 'revisions'> | null) => {
+    const item = historyRef.current.find(entry => entry.id === historyId);
+    const changes = item && update(item);
+    if (!item || !changes) return;
+    handleUpdateHistoryItem(historyId, { ...changes, flashcards: item.flashcards && reconcileFlashcards(item.flashcards, changes.materials) });
+    // Only refresh the view if it still shows this lecture; a regeneration may finish after switching away.
+    setStudyMaterials(current => current === item.materials ? changes.materials : current);
+  };
+
+  const handleSaveSection = (section: EditableSection, value: StudyMaterials[EditableSection]) => {
+    if (currentHistoryId !== null) applyMaterialsChange(currentHistoryId, item => changeSection(item, section, value, 'edit'));
+  };
+
+  const handleRegenerateSection = async (section: EditableSection, guidance: string) => {
+    if (!studyMaterials || currentHistoryId === null || regeneratingSection) return;
+    if (!API_KEY) {
+      setError({ message: "API_KEY environment variable is not set.", retryable: false });
+      return;
+    }
+
+    const historyId = currentHistoryId;
+    setRegeneratingSection(section);
+    setError(null);
+    try {
+        const item = history.find(entry => entry.id === historyId);
+        const lectureTemplate = templateFor(item);
+        const { llm } = createGeminiProviders(API_KEY, lectureTemplate.model);
+        const value = await regenerateSection(llm, studyMaterials, section, lectureTemplate, guidance || undefined, item?.language?.target);
+        applyMaterialsChange(historyId, item => changeSection(item, section, value, 'regenerate', guidance || undefined));
+    } catch (err) {
+        console.error("Failed to regenerate section", err);
+        setError(toErrorState(err, `Sorry, there was an error regenerating the ${SECTION_LABELS[section]}.`));
+    } finally {
+        setRegeneratingSection(null);
+    }
+  };
+
+  const handleUndoRevision = () => {
+    if (currentHistoryId !== null) applyMaterialsChange(currentHistoryId, undoLastRevision);
+  };
+
+  const handleRestoreRevision = (revisionId: number) => {
+    if (currentHistoryId !== null) applyMaterialsChange(currentHistoryId, item => restoreRevision(item, revisionId));
+  };
+
+  const handleUpdateVocabulary = (courseName: string, update: (vocabulary: VocabularyEntry[]) => VocabularyEntry[]) => {
+    setVocabularies(prev => {
+      const next = { ...prev, [courseName]: update(prev[courseName] ?? []) };
+      storeCourseVocabularies(next);
+      return next;
+    });
+  };
+
+  const handleSaveTranscript = (changes: Pick<StudyMaterials, 'transcript' | 'transcriptSegments'>) => {
+    const item = historyRef.current.find(entry => entry.id === currentHistoryId);
+    if (!item) return;
+    const materials = { ...item.materials, ...changes };
+    handleUpdateHistoryItem(item.id, { materials, transcriptEdited: true });
+    setStudyMaterials(current => current === item.materials ? materials : current);
+    setIsEditingTranscript(false);
+  };
+
+  // Steps 2 and 3 again, from the corrected transcript. The slides don't depend on the transcript, so they're kept.
+  const handleRebuildStudyGuide = async () => {
+    const item = history.find(entry => entry.id === currentHistoryId);
+    if (!item || isProcessing) return;
+    if (!API_KEY) {
+      setError({ message: "API_KEY environment variable is not set.", retryable: false });
+      return;
+    }
+
+    setIsProcessing(true);
+    setError(null);
+    setProgress(0);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    try {
+        const lectureTemplate = templateFor(item);
+        const { transcriber, llm } = createGeminiProviders(API_KEY, lectureTemplate.model);
+        const { materials } = await generateStudyMaterials({
+            duration: 0,
+            transcriber,
+            llm,
+            template: lectureTemplate,
+            references: item.references,
+            resumeFrom: { materials: item.materials, language: item.language, completedSteps: ['transcription', 'translation', 'slides'] },
+            signal: controller.signal,
+            onStep: (step) => {
+                setLoadingMessage(step === 'studyGuide' ? 'Step 2/3: Rebuilding the study guide from the corrected transcript...' : 'Step 3/3: Rewriting the detailed notes...');
+                setProgress(0);
+                startProgressSimulation();
+            },
+        });
+        const { summary, keySections, formulas, glossary, examQuestions, detailedNotes } = materials;
+        // The lecture may have been edited or deleted while the model was working.
+        const current = historyRef.current.find(entry => entry.id === item.id);
+        if (!current) return;
+        const changes = changeSections(current, { summary, keySections, formulas, glossary, examQuestions, detailedNotes }, 'regenerate', 'from the corrected transcript');
+        // A quiz that has been taken stays, so its attempts still match their questions.
+        const quiz = current.quizAttempts?.length ? current.materials.quiz : materials.quiz;
+        const updated = { ...changes.materials, quiz };
+        handleUpdateHistoryItem(current.id, {
+            materials: updated,
+            revisions: changes.revisions,
+            flashcards: current.flashcards && reconcileFlashcards(current.flashcards, updated),
+            transcriptEdited: undefined,
+        });
+        setStudyMaterials(shown => shown === current.materials ? updated : shown);
+        setActiveTab('notes');
+    } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error("Failed to rebuild the study guide", err);
+        setError(toErrorState(err, "Sorry, there was an error rebuilding the study guide."));
+    } finally {
+        if (progressIntervalRef.current) clearInterval(progressIntervalRef.current);
+        abortControllerRef.current = null;
+        setIsProcessing(false);
+        setLoadingMessage('');
+        setProgress(0);
+    }
+  };
+
+  // MCQs are scored locally; short answers are graded by the model against their rubrics.
+  const handleSubmitQuiz = async (responses: (string | number | null)[]): Promise<QuizAttempt | null> => {
+    const quiz = studyMaterials?.quiz;
+    if (!quiz) return null;
+
+    const shortAnswers = quiz.flatMap((question, index) =>
+        question.type === 'short' ? [{ index, question, response: String(responses[index] ?? '') }] : []);
+    let shortAnswerResults: QuizAnswerResult[] = [];
+    if (shortAnswers.length > 0) {
+        if (!API_KEY) {
+            setError({ message: "API_KEY environment variable is not set.", retryable: false });
+            return null;
+        }
+        try {
+            const item = history.find(entry => entry.id === currentHistoryId);
+            const { llm } = createGeminiProviders(API_KEY, (item ? templateFor(item) : template).model);
+            shortAnswerResults = await gradeShortAnswers(llm, shortAnswers);
+        } catch (err) {
+            console.error("Failed to grade short answers", err);
+            setError(toErrorState(err, "Sorry, there was an error grading your answers."));
+            return null;
+        }
+    }
+
+    const results = quiz.map((question, index) => question.type === 'mcq'
+        ? scoreMultipleChoice(question, typeof responses[index] === 'number' ? responses[index] as number : null)
+        : shortAnswerResults[shortAnswers.findIndex(answer => answer.index === index)]);
+    const attempt: QuizAttempt = {
+        id: Date.now(),
+        results,
+        score: results.reduce((total, result) => total + result.score, 0),
+        maxScore: quiz.length,
+    };
+    if (currentHistoryId !== null) {
+        handleUpdateHistoryItem(currentHistoryId, item => ({ quizAttempts: [attempt, ...(item.quizAttempts ?? [])] }));
+    }
+    return attempt;
+  };
+
+  const handleAskQuestion = async (question: string) => {
+    const item = history.find(entry => entry.id === currentHistoryId);
+    if (!item || isAnswering) return;
+    if (!API_KEY) {
+      setError({ message: "API_KEY environment variable is not set.", retryable: false });
+      return;
+    }
+
+    const previousMessages = item.chat ?? [];
+    const userMessage: ChatMessage = { role: 'user', text: question, timestamp: Date.now() };
+    handleUpdateHistoryItem(item.id, entry => ({ chat: [...(entry.chat ?? []), userMessage] }));
+
+    setIsAnswering(true);
+    setError(null);
+    try {
+        const { llm } = createGeminiProviders(API_KEY, templateFor(item).model);
+        const reply = await answerLectureQuestion(llm, item.materials, previousMessages, question);
+        handleUpdateHistoryItem(item.id, entry => ({ chat: [...(entry.chat ?? []), reply] }));
+    } catch (err) {
+        console.error("Failed to answer question", err);
+        setError(toErrorState(err, "Sorry, there was an error answering your question."));
+    } finally {
+        setIsAnswering(false);
+    }
+  };
+
+  const handleCitationClick = (passageIndex: number) => {
+    const segment = studyMaterials?.transcriptSegments?.[passageIndex];
+    if (!segment) return;
+    setActiveTab('transcript');
+    handleSegmentClick(segment, passageIndex);
+  };
+
+  const dueCardCount = getDueCards(history).length;
+  const currentHistoryItem = history.find(entry => entry.id === currentHistoryId);
+  // Editing needs a saved lecture to record the version history on.
+  const sectionEditing: SectionEditing | undefined = currentHistoryItem
+      ? { regeneratingSection, onSave: handleSaveSection, onRegenerate: handleRegenerateSection }
+      : undefined;
+
+  const historyTitle = (item: HistoryItem) => item.title || item.filename;
+  const courses = [...new Set<string>(history.map(item => item.course).filter((course): course is string => !!course))].sort();
+  const tags = [...new Set<string>(history.flatMap(item => item.tags ?? []))].sort();
+  const visibleHistory = history
+      .filter(item => courseFilter === null || (item.course ?? '') === courseFilter)
+      .filter(item => tagFilter === null || (item.tags ?? []).includes(tagFilter))
+      .sort((a, b) => {
+          switch (sortOrder) {
+              case 'oldest': return a.id - b.id;
+              case 'lectureDate': return (b.lectureDate ?? '').localeCompare(a.lectureDate ?? '') || b.id - a.id;
+              case 'title': return historyTitle(a).localeCompare(historyTitle(b));
+              default: return b.id - a.id;
+          }
+      });
+  const visibleIds = new Set(visibleHistory.map(item => item.id));
+  // searchIndexVersion changes whenever the index does, so results are recomputed after re-indexing.
+  const searchResults = searchQuery.trim() && searchIndexVersion >= 0
+      ? searchIndexRef.current.search(searchQuery).filter(result => visibleIds.has(result.historyId))
+      : null;
+  const fieldLabels: Record<SearchMatch['field'], string> = {
+      summary: 'Summary',
+      detailedNotes: 'Detailed Notes',
+      glossary: 'Glossary',
+      transcript: 'Transcript',
+  };
+
   const handleCopyTranscript = async () => {
     if (isCopied || !studyMaterials?.transcript) return;
     try {
@@ -424,70 +2645,42 @@ const App = () => {
     }
   };
 
-  const handleDownload = async (section: 'notes' | 'detailed' | 'transcript') => {
+  const handleDownload = async (section: DocumentSection | 'all') => {
     if (!studyMaterials || !mediaFile || downloadingSection) return;
 
     setDownloadingSection(section);
-    
-    const sourceElement = document.getElementById(`${section}-pdf-source`);
-    if (!sourceElement) {
-        console.error("PDF source element not found!");
-        setDownloadingSection(null);
-        return;
-    }
-
-    const pdfContainer = document.createElement('div');
-    pdfContainer.className = 'pdf-render-container';
-    
-    let title = '';
-    switch(section) {
-        case 'notes': title = 'Study Notes'; break;
-        case 'detailed': title = 'Detailed Notes'; break;
-        case 'transcript': title = 'Transcript'; break;
-    }
-    
-    pdfContainer.innerHTML = `
-        <div style="padding: 40px;">
-            <h1>${title} for ${mediaFile.name}</h1>
-            ${sourceElement.innerHTML}
-        </div>
-    `;
-    document.body.appendChild(pdfContainer);
+    const title = section === 'all' ? 'Full Study Pack' : SECTION_TITLES[section];
 
-    await new Promise(resolve => setTimeout(resolve, 100));
+    // Let the button show its "Downloading..." state before the (synchronous) rendering starts.
+    await new Promise(resolve => setTimeout(resolve, 50));
 
     try {
-        const canvas = await html2canvas(pdfContainer, { useCORS: true, backgroundColor: null });
-        const imgWidth = 210; // A4 width in mm
-        const pageHeight = 297; // A4 height in mm
-        const imgHeight = canvas.height * imgWidth / canvas.width;
-        let heightLeft = imgHeight;
-
-        const pdf = new jsPDF('p', 'mm', 'a4');
-        let position = 0;
-
-        pdf.addImage(canvas, 'PNG', 0, position, imgWidth, imgHeight);
-        heightLeft -= pageHeight;
-
-        while (heightLeft > 0) {
-            position -= pageHeight;
-            pdf.addPage();
-            pdf.addImage(canvas, 'PNG', 0, position, imgWidth, imgHeight);
-            heightLeft -= pageHeight;
-        }
-
+        const pdf = createStudyPdf(studyMaterials, {
+            title: `${title} for ${currentHistoryItem?.title || mediaFile.name}`,
+            sections: section === 'all' ? ['notes', 'detailed', 'transcript'] : [section],
+        });
         const safeFilename = mediaFile.name.replace(/[^a-z0-9.]/gi, '_').toLowerCase();
-        pdf.save(`${section}-guide-${safeFilename}.pdf`);
-
+        pdf.save(`${section === 'all' ? 'study-pack' : `${section}-guide`}-${safeFilename}.pdf`);
     } catch (err) {
         console.error("Failed to generate PDF", err);
         setError({ message: `Sorry, there was an error creating the PDF for ${title}.`, retryable: false });
     } finally {
-        document.body.removeChild(pdfContainer);
         setDownloadingSection(null);
     }
   };
 
+  const handleExport = (format: ExportFormat) => {
+    if (!studyMaterials || !mediaFile) return;
+    try {
+        const blob = exportStudyMaterials(studyMaterials, format, currentHistoryItem?.title || mediaFile.name);
+        const baseName = mediaFile.name.replace(/\.[^.]+$/, '').replace(/[^a-z0-9]/gi, '_').toLowerCase();
+        downloadBlob(blob, `${baseName}.${EXPORT_FORMATS[format].extension}`);
+    } catch (err) {
+        console.error("Failed to export study materials", err);
+        setError({ message: `Sorry, there was an error creating the ${EXPORT_FORMATS[format].label} export.`, retryable: false });
+    }
+  };
+
 
   return (
     <main className="container">
@@ -502,58 +2695,343 @@ const App = () => {
         <h1>Unlock Your Lecture's Power</h1>
       </header>
 
+      {!isOnline && (
+        <p className="card offline-banner" role="status">
+            You're offline. Your saved lectures, notes and flashcards still work, and new recordings will be processed when you're back online.
+        </p>
+      )}
+
       <section className="card upload-section">
-        <label 
-            htmlFor="file-upload" 
-            className={`upload-area ${isDragging ? 'drag-over' : ''}`}
-            onDragEnter={handleDragEnter}
-            onDragLeave={handleDragLeave}
-            onDragOver={handleDragOver}
-            onDrop={handleDrop}
-        >
-            <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" className="upload-icon"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="17 8 12 3 7 8"></polyline><line x1="12" y1="3" x2="12" y2="15"></line></svg>
-            <p>Drag & drop your lecture recording</p>
-            <span>Supports MP3, WAV, MP4, M4A, and more.</span>
-            <button type="button" className="upload-btn" onClick={(e) => { e.preventDefault(); document.getElementById('file-upload')?.click(); }}>
-                Or Select File
+        {unfinishedRecordings.map(recording => (
+            <div key={recording.sessionId} className="recovery-banner">
+                <span>A recording started {new Date(recording.sessionId).toLocaleString()} ({formatBytes(recording.data.size)}) was interrupted before it was saved.</span>
+                <div className="history-item-actions">
+                    <button className="history-btn view-btn" onClick={() => handleRecoverRecording(recording)} disabled={isRecording}>Recover</button>
+                    <button className="history-btn delete-btn" onClick={() => handleDiscardRecording(recording.sessionId)}>Discard</button>
+                </div>
+            </div>
+        ))}
+        <div className="input-mode-toggle" role="tablist">
+            <button role="tab" aria-selected={inputMode === 'upload'} className={`mode-btn ${inputMode === 'upload' ? 'active' : ''}`} onClick={() => setInputMode('upload')} disabled={isRecording}>
+                Upload File
+            </button>
+            <button role="tab" aria-selected={inputMode === 'record'} className={`mode-btn ${inputMode === 'record' ? 'active' : ''}`} onClick={() => setInputMode('record')}>
+                Record Live
             </button>
-            <input id="file-upload" type="file" accept="audio/*,video/*" onChange={handleFileChange} style={{ display: 'none' }} />
-        </label>
+        </div>
+        {inputMode === 'upload' ? (
+            <label 
+                htmlFor="file-upload" 
+                className={`upload-area ${isDragging ? 'drag-over' : ''}`}
+                onDragEnter={handleDragEnter}
+                onDragLeave={handleDragLeave}
+                onDragOver={handleDragOver}
+                onDrop={handleDrop}
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" className="upload-icon"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="17 8 12 3 7 8"></polyline><line x1="12" y1="3" x2="12" y2="15"></line></svg>
+                <p>Drag & drop your lecture recording</p>
+                <span>Supports MP3, WAV, MP4, M4A, and more. Drop several files or a whole folder to queue them.</span>
+                <div className="upload-buttons">
+                    <button type="button" className="upload-btn" onClick={(e) => { e.preventDefault(); document.getElementById('file-upload')?.click(); }}>
+                        Or Select Files
+                    </button>
+                    <button type="button" className="upload-btn secondary" onClick={(e) => { e.preventDefault(); document.getElementById('folder-upload')?.click(); }}>
+                        Select Folder
+                    </button>
+                </div>
+                <input id="file-upload" type="file" accept="audio/*,video/*" multiple onChange={handleFileChange} style={{ display: 'none' }} />
+                {/* webkitdirectory isn't in React's attribute types, so it is set on the element directly. */}
+                <input id="folder-upload" type="file" ref={input => input?.setAttribute('webkitdirectory', '')} onChange={handleFileChange} style={{ display: 'none' }} />
+            </label>
+        ) : (
+            <LiveRecorder disabled={isProcessing} language={languageOptions.source === AUTO_DETECT ? undefined : languageOptions.source} onRecordingChange={setIsRecording} onFinished={handleRecordingFinished} />
+        )}
         {mediaFile && <p className="file-info">Selected: {mediaFile.name}</p>}
+        <div className="language-options">
+            <label>
+                Spoken language
+                <select value={languageOptions.source} onChange={(e) => setLanguageOptions(prev => ({ ...prev, source: e.target.value }))} disabled={isProcessing || isRecording}>
+                    <option value={AUTO_DETECT}>Detect automatically</option>
+                    {LANGUAGES.map(language => <option key={language} value={language}>{language}</option>)}
+                </select>
+            </label>
+            <label>
+                Study materials in
+                <select value={languageOptions.target} onChange={(e) => setLanguageOptions(prev => ({ ...prev, target: e.target.value }))} disabled={isProcessing}>
+                    <option value={SAME_AS_SPOKEN}>Same as the lecture</option>
+                    {LANGUAGES.map(language => <option key={language} value={language}>{language}</option>)}
+                </select>
+            </label>
+        </div>
+        <CourseVocabularySettings
+            course={course}
+            courses={courses}
+            vocabulary={vocabularies[course.trim()] ?? []}
+            disabled={isProcessing}
+            onCourseChange={setCourse}
+            onVocabularyChange={vocabulary => handleUpdateVocabulary(course.trim(), () => vocabulary)}
+        />
+        <ReferenceAttachments
+            references={references}
+            isReading={isReadingReferences}
+            disabled={isProcessing}
+            onAttach={handleAttachReferences}
+            onRemove={index => setReferences(prev => prev.filter((_, i) => i !== index))}
+        />
+        <TemplateSettings
+            template={template}
+            savedTemplates={savedTemplates}
+            disabled={isProcessing}
+            onChange={setTemplate}
+            onSave={handleSaveTemplate}
+            onDelete={handleDeleteTemplate}
+        />
 
-        <button onClick={handleGenerate} disabled={!mediaFile || !audioData || isProcessing} className="shiny-cta generate-shiny-btn">
+        <button onClick={handleGenerate} disabled={!mediaFile || mediaFile.size === 0 || isProcessing || isRecording} className="shiny-cta generate-shiny-btn">
           <span>{isProcessing ? 'Generating...' : 'Generate Study Guide'}</span>
         </button>
       </section>
 
-      {isProcessing && <Loader message={loadingMessage} progress={progress} />}
-      {error && <ErrorDisplay message={error.message} onRetry={error.retryable ? handleGenerate : undefined} />}
+      {isProcessing && <Loader message={loadingMessage} progress={progress} onCancel={handleCancelGeneration} />}
+      {batchItems.length > 0 && (
+        <BatchQueuePanel
+            items={batchItems}
+            isOnline={isOnline}
+            onOpen={handleOpenBatchLecture}
+            onRetry={id => getBatchQueue().retry(id)}
+            onRemove={handleRemoveFromBatch}
+            onClearFinished={() => getBatchQueue().clearFinished()}
+        />
+      )}
+      {error && <ErrorDisplay message={error.message} kind={error.kind} onRetry={error.retryable ? handleRetry : undefined} />}
       
+      <input id="library-import" type="file" accept=".zip,application/zip" onChange={handleLibraryFileChange} style={{ display: 'none' }} />
+      {pendingLibraryImport && (
+        <LibraryImportDialog
+            archive={pendingLibraryImport.archive}
+            duplicateCount={pendingLibraryImport.duplicateCount}
+            libraryCount={history.length}
+            isImporting={isLibraryBusy}
+            onImport={handleApplyLibraryImport}
+            onCancel={() => setPendingLibraryImport(null)}
+        />
+      )}
+
+      {history.length === 0 && !pendingLibraryImport && (
+        <section className="card library-empty">
+            <p>{libraryNotice ?? 'Moving from another browser or device? Bring your saved lectures with you.'}</p>
+            <button className="history-btn view-btn" onClick={() => document.getElementById('library-import')?.click()} disabled={isLibraryBusy}>
+                Import Library Backup
+            </button>
+        </section>
+      )}
+
       {history.length > 0 && (
         <section className="card history-section">
-            <h2>Study History</h2>
-            <ul className="history-list">
-                {history.map(item => (
-                    <li key={item.id} className="history-item">
-                        <div className="history-item-info">
-                            <span className="history-filename" title={item.filename}>{item.filename}</span>
-                            <span className="history-date">{new Date(item.id).toLocaleString()}</span>
-                        </div>
-                        <div className="history-item-actions">
-                            <button onClick={() => handleViewFromHistory(item)} className="history-btn view-btn" aria-label={`View study guide for ${item.filename}`}>View</button>
-                            <button onClick={() => handleDeleteFromHistory(item.id)} className="history-btn delete-btn" aria-label={`Delete study guide for ${item.filename}`}>Delete</button>
-                        </div>
-                    </li>
-                ))}
-            </ul>
+            <div className="history-header">
+                <div>
+                    <h2>Study History</h2>
+                    {storageUsage && (
+                        <span className={`storage-usage ${storageUsage.usage / storageUsage.quota > 0.9 ? 'storage-nearly-full' : ''}`}>
+                            Using {formatBytes(storageUsage.usage)} of {formatBytes(storageUsage.quota)}
+                        </span>
+                    )}
+                </div>
+                <div className="history-header-actions">
+                    <button className="history-btn" onClick={handleExportLibrary} disabled={isLibraryBusy}>Export Library</button>
+                    <button className="history-btn" onClick={() => document.getElementById('library-import')?.click()} disabled={isLibraryBusy}>Import Library</button>
+                    <button className="history-btn view-btn" onClick={() => setDueReviewCards(getDueCards(history))} disabled={dueCardCount === 0}>
+                        Due Today ({dueCardCount})
+                    </button>
+                    <button className="history-btn view-btn" onClick={() => setReviewSelection(prev => prev ? null : [])} disabled={history.length < 2}>
+                        Create Review Guide
+                    </button>
+                </div>
+            </div>
+            {libraryNotice && <p className="library-notice">{libraryNotice}</p>}
+            {reviewSelection && (
+                <div className="review-selection-bar">
+                    <span>
+                        {reviewSelection.length === 0 ? 'Select the lectures to combine into one review guide.' : `${reviewSelection.length} lecture${reviewSelection.length === 1 ? '' : 's'} selected`}
+                    </span>
+                    <button className="history-btn" onClick={() => setReviewSelection(visibleHistory.filter(item => !item.completedSteps).map(item => item.id))} disabled={isCreatingReview}>Select All Shown</button>
+                    <button className="history-btn view-btn" onClick={handleCreateReview} disabled={reviewSelection.length < 2 || isCreatingReview}>
+                        {isCreatingReview ? 'Creating Review Guide...' : 'Create'}
+                    </button>
+                    <button className="history-btn" onClick={() => setReviewSelection(null)} disabled={isCreatingReview}>Cancel</button>
+                </div>
+            )}
+            {courseReviews.length > 0 && (
+                <ul className="course-review-list">
+                    {courseReviews.map(review => (
+                        <li key={review.id}>
+                            <button type="button" className={`course-review-link ${activeReview?.id === review.id ? 'active' : ''}`} onClick={() => setActiveReview(review)}>
+                                {review.title} <span className="history-date">{review.lectures.length} lectures · {new Date(review.id).toLocaleDateString()}</span>
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <div className="history-toolbar">
+                <input
+                    type="search"
+                    className="history-search"
+                    placeholder="Search notes, glossaries and transcripts..."
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    aria-label="Search all saved lectures"
+                />
+                <select value={courseFilter ?? '__all'} onChange={(e) => setCourseFilter(e.target.value === '__all' ? null : e.target.value)} aria-label="Filter by course">
+                    <option value="__all">All courses</option>
+                    {courses.map(course => <option key={course} value={course}>{course}</option>)}
+                    <option value="">No course</option>
+                </select>
+                {tags.length > 0 && (
+                    <select value={tagFilter ?? '__all'} onChange={(e) => setTagFilter(e.target.value === '__all' ? null : e.target.value)} aria-label="Filter by tag">
+                        <option value="__all">All tags</option>
+                        {tags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+                    </select>
+                )}
+                <select value={sortOrder} onChange={(e) => setSortOrder(e.target.value as typeof sortOrder)} aria-label="Sort lectures">
+                    <option value="newest">Newest first</option>
+                    <option value="oldest">Oldest first</option>
+                    <option value="lectureDate">Lecture date</option>
+                    <option value="title">Title (A-Z)</option>
+                </select>
+            </div>
+            {searchResults ? (
+                <ul className="history-list search-results">
+                    {searchResults.length === 0 && <li className="history-empty">No lectures match "{searchQuery}".</li>}
+                    {searchResults.map(result => {
+                        const item = history.find(entry => entry.id === result.historyId)!;
+                        return (
+                            <li key={result.historyId} className="search-result">
+                                <span className="history-filename" title={historyTitle(item)}>{historyTitle(item)}</span>
+                                <ul className="search-matches">
+                                    {result.matches.map(match => (
+                                        <li key={`${match.field}-${match.location}`}>
+                                            <button type="button" className="search-match-btn" onClick={() => handleViewFromHistory(item, match)}>
+                                                <span className="search-match-field">{fieldLabels[match.field]}</span>
+                                                <span className="search-match-snippet"><HighlightedText text={match.snippet} query={searchQuery} /></span>
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </li>
+                        );
+                    })}
+                </ul>
+            ) : (
+                <ul className="history-list">
+                    {visibleHistory.length === 0 && <li className="history-empty">No lectures match these filters.</li>}
+                    {visibleHistory.map(item => (
+                        <li key={item.id} className="history-item">
+                            {editingHistoryId === item.id ? (
+                                <HistoryItemEditor
+                                    item={item}
+                                    courses={courses}
+                                    onSave={(changes) => { handleUpdateHistoryItem(item.id, changes); setEditingHistoryId(null); }}
+                                    onCancel={() => setEditingHistoryId(null)}
+                                />
+                            ) : (
+                                <>
+                                    {reviewSelection && (
+                                        <input
+                                            type="checkbox"
+                                            className="review-select"
+                                            checked={reviewSelection.includes(item.id)}
+                                            onChange={() => toggleReviewSelection(item.id)}
+                                            disabled={!!item.completedSteps || isCreatingReview}
+                                            aria-label={`Include ${historyTitle(item)} in the review guide`}
+                                        />
+                                    )}
+                                    <div className="history-item-info">
+                                        <span className="history-filename" title={item.filename}>{historyTitle(item)}</span>
+                                        <span className="history-date">
+                                            {item.lectureDate ? `Lecture on ${new Date(`${item.lectureDate}T00:00`).toLocaleDateString()}` : new Date(item.id).toLocaleString()}
+                                        </span>
+                                        {(item.course || !!item.tags?.length || item.completedSteps) && (
+                                            <div className="history-labels">
+                                                {item.completedSteps && <span className="incomplete-badge">Unfinished</span>}
+                                                {item.course && <span className="course-badge">{item.course}</span>}
+                                                {item.tags?.map(tag => <span key={tag} className="tag-chip">#{tag}</span>)}
+                                            </div>
+                                        )}
+                                    </div>
+                                    <div className="history-item-actions">
+                                        <button onClick={() => handleViewFromHistory(item)} className="history-btn view-btn" aria-label={`View study guide for ${historyTitle(item)}`}>View</button>
+                                        {item.completedSteps && (
+                                            <button onClick={() => handleResumeGeneration(item)} className="history-btn view-btn" disabled={isProcessing} aria-label={`Finish generating the study guide for ${historyTitle(item)}`}>Resume</button>
+                                        )}
+                                        <button onClick={() => setEditingHistoryId(item.id)} className="history-btn view-btn" aria-label={`Edit details for ${historyTitle(item)}`}>Edit</button>
+                                        <button onClick={() => handleDeleteFromHistory(item.id)} className="history-btn delete-btn" aria-label={`Delete study guide for ${historyTitle(item)}`}>Delete</button>
+                                    </div>
+                                </>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </section>
+      )}
+
+      {dueReviewCards && (
+        <section className="card review-section">
+            <h2>Due Today</h2>
+            <FlashcardReview cards={dueReviewCards} onGrade={handleGradeFlashcard} onClose={() => setDueReviewCards(null)} />
         </section>
       )}
 
+      {activeReview && (
+        <CourseReviewView
+            review={activeReview}
+            onOpenLecture={handleOpenReviewLecture}
+            onDelete={() => handleDeleteReview(activeReview.id)}
+            onClose={() => setActiveReview(null)}
+        />
+      )}
+
       {studyMaterials && (
         <section className="card results-section">
           <div className="results-header">
-            <h2>Your Study Guide is Ready!</h2>
+            <div>
+                <h2>{currentHistoryItem?.completedSteps ? 'Your Study Guide is Unfinished' : 'Your Study Guide is Ready!'}</h2>
+                {currentHistoryItem?.language && (
+                    <p className="language-badge" title={currentHistoryItem.language.detected ? 'Spoken language detected automatically' : undefined}>
+                        {describeLanguage(currentHistoryItem.language)}
+                    </p>
+                )}
+                {currentHistoryItem?.template && (
+                    <p className="language-badge template-badge" title={`Generated with ${currentHistoryItem.template.model}`}>
+                        {currentHistoryItem.template.name}
+                    </p>
+                )}
+                {!!currentHistoryItem?.references?.length && (
+                    <p className="language-badge template-badge" title={currentHistoryItem.references.map(reference => reference.name).join('\n')}>
+                        {currentHistoryItem.references.length} reference{currentHistoryItem.references.length === 1 ? '' : 's'}
+                    </p>
+                )}
+            </div>
+            <div className="results-actions">
+                <button className="section-download-btn" onClick={() => handleDownload('all')} disabled={!!downloadingSection}>
+                    <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="7 10 12 15 17 10"></polyline><line x1="12" y1="15" x2="12" y2="3"></line></svg>
+                    <span>{downloadingSection === 'all' ? 'Downloading...' : 'Download Full Study Pack'}</span>
+                </button>
+                <select className="export-select" value="" onChange={(e) => handleExport(e.target.value as ExportFormat)} aria-label="Export in another format">
+                    <option value="" disabled>Export as...</option>
+                    {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+                        <option key={format} value={format} disabled={!canExport(studyMaterials, format)}>{EXPORT_FORMATS[format].label}</option>
+                    ))}
+                </select>
+            </div>
           </div>
+          {currentHistoryItem?.completedSteps && (
+            <div className="unfinished-banner">
+                <span>{describeUnfinishedSteps(currentHistoryItem.completedSteps)} Resuming picks up from there without transcribing the lecture again.</span>
+                <button className="history-btn view-btn" onClick={() => handleResumeGeneration(currentHistoryItem)} disabled={isProcessing}>Resume</button>
+            </div>
+          )}
+          <MediaPlayer file={mediaFile} mediaRef={mediaRef} onTimeUpdate={handleMediaTimeUpdate} onReattach={handleReattachMedia} />
           <div className="tabs">
             <button className={`tab-btn ${activeTab === 'notes' ? 'active' : ''}`} onClick={() => setActiveTab('notes')}>
               Study Notes
@@ -564,6 +3042,12 @@ const App = () => {
              <button className={`tab-btn ${activeTab === 'transcript' ? 'active' : ''}`} onClick={() => setActiveTab('transcript')}>
               Transcript
             </button>
+            <button className={`tab-btn ${activeTab === 'flashcards' ? 'active' : ''}`} onClick={() => setActiveTab('flashcards')}>
+              Flashcards
+            </button>
+            <button className={`tab-btn ${activeTab === 'quiz' ? 'active' : ''}`} onClick={() => setActiveTab('quiz')}>
+              Quiz
+            </button>
           </div>
           
           <div className="tab-content">
@@ -576,8 +3060,13 @@ const App = () => {
                             <span>{downloadingSection === 'notes' ? 'Downloading...' : 'Download PDF'}</span>
                         </button>
                     </div>
-                    <div id="notes-pdf-source">
-                        <StudyNotes materials={studyMaterials} />
+                    <div>
+                        <StudyNotes
+                            materials={studyMaterials}
+                            onLocate={studyMaterials.transcriptSegments?.length ? handleLocate : undefined}
+                            highlight={highlightQuery}
+                            editing={sectionEditing}
+                        />
                     </div>
                 </div>
             )}
@@ -590,16 +3079,30 @@ const App = () => {
                             <span>{downloadingSection === 'detailed' ? 'Downloading...' : 'Download PDF'}</span>
                         </button>
                     </div>
-                    <div id="detailed-pdf-source">
-                        <DetailedNotesDisplay notes={studyMaterials.detailedNotes} />
+                    <div>
+                        <EditableSectionFrame section="detailedNotes" materials={studyMaterials} editing={sectionEditing}>
+                            <DetailedNotesDisplay notes={studyMaterials.detailedNotes} slides={studyMaterials.slides} highlight={highlightQuery} onSeek={mediaFile ? seekTo : undefined} />
+                        </EditableSectionFrame>
                     </div>
                 </div>
             )}
+            {(activeTab === 'notes' || activeTab === 'detailed') && !!currentHistoryItem?.revisions?.length && (
+                <RevisionHistory revisions={currentHistoryItem.revisions} onUndo={handleUndoRevision} onRestore={handleRestoreRevision} />
+            )}
             {activeTab === 'transcript' && (
                 <div className="tab-panel">
                     <div className="tab-panel-header">
                         <h3>Full Transcript</h3>
                         <div className="header-actions">
+                            {currentHistoryItem && !isEditingTranscript && (
+                                <button className="section-action-btn" onClick={() => setIsEditingTranscript(true)} disabled={isProcessing}>Edit</button>
+                            )}
+                            {studyMaterials.originalTranscriptSegments && !isEditingTranscript && (
+                                <label className="original-toggle">
+                                    <input type="checkbox" checked={showOriginalTranscript} onChange={(e) => setShowOriginalTranscript(e.target.checked)} />
+                                    Show original{currentHistoryItem?.language ? ` (${currentHistoryItem.language.source})` : ''}
+                                </label>
+                            )}
                             <button
                                 onClick={handleCopyTranscript}
                                 className={`copy-btn ${isCopied ? 'copied' : ''}`}
@@ -614,12 +3117,89 @@ const App = () => {
                             </button>
                         </div>
                     </div>
-                    <div id="transcript-pdf-source" className="transcript-wrapper">
-                        <TranscriptDisplay transcript={studyMaterials.transcript} />
+                    {currentHistoryItem?.transcriptEdited && !currentHistoryItem.completedSteps && !isEditingTranscript && (
+                        <div className="rebuild-banner">
+                            <span>The transcript was corrected after the study guide was written from it.</span>
+                            <button className="history-btn view-btn" onClick={handleRebuildStudyGuide} disabled={isProcessing}>
+                                {isProcessing ? 'Rebuilding...' : 'Rebuild Study Guide from Corrected Transcript'}
+                            </button>
+                        </div>
+                    )}
+                    {isEditingTranscript && currentHistoryItem ? (
+                        <TranscriptEditor
+                            key={currentHistoryItem.id}
+                            materials={studyMaterials}
+                            course={currentHistoryItem.course}
+                            vocabulary={currentHistoryItem.course ? vocabularies[currentHistoryItem.course] ?? [] : []}
+                            onSave={handleSaveTranscript}
+                            onRemember={(mistake, term) => handleUpdateVocabulary(currentHistoryItem.course!, vocabulary => addCorrection(vocabulary, mistake, term))}
+                            onCancel={() => setIsEditingTranscript(false)}
+                        />
+                    ) : (
+                        <div className="transcript-wrapper">
+                            <TranscriptDisplay
+                                transcript={studyMaterials.transcript}
+                                segments={studyMaterials.transcriptSegments}
+                                originalSegments={showOriginalTranscript ? studyMaterials.originalTranscriptSegments : undefined}
+                                activeIndex={activeSegmentIndex}
+                                onSegmentClick={handleSegmentClick}
+                                highlight={highlightQuery}
+                            />
+                        </div>
+                    )}
+                </div>
+            )}
+            {activeTab === 'flashcards' && (
+                <div className="tab-panel">
+                    <div className="tab-panel-header">
+                        <h3>Flashcards</h3>
+                    </div>
+                    {/* Keyed by lecture so an open review session doesn't carry over to another lecture */}
+                    <div key={currentHistoryId ?? 'unsaved'}>
+                        <FlashcardsPanel
+                            item={currentHistoryItem}
+                            isCreating={isCreatingFlashcards}
+                            onCreate={handleCreateFlashcards}
+                            onGrade={handleGradeFlashcard}
+                        />
+                    </div>
+                </div>
+            )}
+            {activeTab === 'quiz' && (
+                <div className="tab-panel">
+                    <div className="tab-panel-header">
+                        <h3>Practice Quiz</h3>
                     </div>
+                    {studyMaterials.quiz?.length ? (
+                        <div key={currentHistoryId ?? 'unsaved'}>
+                            <QuizPanel
+                                questions={studyMaterials.quiz}
+                                attempts={currentHistoryItem?.quizAttempts ?? []}
+                                onSubmit={handleSubmitQuiz}
+                            />
+                        </div>
+                    ) : (
+                        <div className="flashcards-empty">
+                            <p>Test yourself with multiple-choice and short-answer questions, graded by your AI tutor.</p>
+                            <button className="upload-btn" onClick={handleGenerateQuiz} disabled={isGeneratingQuiz}>
+                                {isGeneratingQuiz ? 'Generating Quiz...' : 'Generate Quiz'}
+                            </button>
+                        </div>
+                    )}
                 </div>
             )}
           </div>
+
+          {currentHistoryItem && (
+            <ChatPanel
+                messages={currentHistoryItem.chat ?? []}
+                segments={studyMaterials.transcriptSegments}
+                isThinking={isAnswering}
+                onAsk={handleAskQuestion}
+                onCitationClick={handleCitationClick}
+                onClear={() => handleUpdateHistoryItem(currentHistoryItem.id, { chat: [] })}
+            />
+          )}
         </section>
       )}
     </main>
@@ -628,4 +3208,11 @@ const App = () => {
 
 const container = document.getElementById('root');
 const root = createRoot(container!);
-root.render(<App />);
\ No newline at end of file
+root.render(<App />);
+
+// The service worker only exists in builds; in development every change should be served fresh.
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).catch(err => console.error("Failed to register the service worker", err));
+  });
+}
\ No newline at end of file
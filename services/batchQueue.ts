@@ -0,0 +1,129 @@
+import { toPipelineError } from './errors';
+
+// A queue for generating study guides for many recordings at once, e.g. a whole folder at the start of term.
+// A few lectures run at a time. When the API reports a rate limit, the whole queue cools down (with
+// exponential backoff) and the lecture goes back in line, rather than every worker hammering the API
+// and failing. Other failures only affect their own lecture, which can be retried on its own. While offline,
+// nothing new is started, and a lecture that loses the connection part-way waits in line for it to come back.
+
+export type BatchItemStatus = 'queued' | 'transcribing' | 'summarizing' | 'done' | 'failed';
+
+export interface BatchItem<T> {
+    id: number;
+    file: File;
+    options: T; // settings captured when the lecture was queued
+    status: BatchItemStatus;
+    error?: string;
+    historyId?: number; // once done
+    retryAt?: number; // timestamp (ms); set while the queue waits out a rate limit
+    rateLimitRetries: number;
+}
+
+export interface BatchQueueOptions<T> {
+    concurrency?: number;
+    /** Generates one lecture, saves it and resolves to its history id. */
+    process: (item: BatchItem<T>, setStatus: (status: 'transcribing' | 'summarizing') => void) => Promise<number>;
+    onChange: (items: BatchItem<T>[]) => void;
+    isOnline?: () => boolean;
+    /** Called when a lecture goes back in line to wait for the connection; returns the settings it waits with. */
+    onWaitForNetwork?: (item: BatchItem<T>) => T;
+}
+
+const DEFAULT_CONCURRENCY = 2;
+const BACKOFF_BASE_MS = 5000;
+const BACKOFF_MAX_MS = 2 * 60 * 1000;
+const MAX_RATE_LIMIT_RETRIES = 5;
+
+const backoffDelay = (attempt: number) =>
+    Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt) * (0.75 + Math.random() * 0.5);
+
+export const createBatchQueue = <T>({ concurrency = DEFAULT_CONCURRENCY, process, onChange, isOnline = () => true, onWaitForNetwork }: BatchQueueOptions<T>) => {
+    let items: BatchItem<T>[] = [];
+    let nextId = 1;
+    let running = 0;
+    let cooldownUntil = 0;
+    let cooldownStreak = 0; // consecutive rate limits, reset by any success
+    let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const update = (id: number, changes: Partial<BatchItem<T>>) => {
+        items = items.map(item => item.id === id ? { ...item, ...changes } : item);
+        onChange(items);
+    };
+
+    const run = async (item: BatchItem<T>) => {
+        running++;
+        update(item.id, { status: 'transcribing', error: undefined, retryAt: undefined });
+        try {
+            const historyId = await process(item, status => update(item.id, { status }));
+            cooldownStreak = 0;
+            update(item.id, { status: 'done', historyId });
+        } catch (err) {
+            console.error(`Batch processing failed for "${item.file.name}"`, err);
+            const error = toPipelineError(err);
+            if (error.kind === 'network' && !isOnline()) {
+                update(item.id, { status: 'queued', options: onWaitForNetwork?.(item) ?? item.options });
+            } else if (error.kind === 'rateLimit' && item.rateLimitRetries < MAX_RATE_LIMIT_RETRIES) {
+                cooldownUntil = Math.max(cooldownUntil, Date.now() + backoffDelay(cooldownStreak++));
+                update(item.id, { status: 'queued', retryAt: cooldownUntil, rateLimitRetries: item.rateLimitRetries + 1 });
+            } else {
+                update(item.id, { status: 'failed', error: error.message });
+            }
+        } finally {
+            running--;
+            pump();
+        }
+    };
+
+    /** Starts queued lectures, in order, until the concurrency limit is reached. */
+    const pump = () => {
+        if (wakeTimer) {
+            clearTimeout(wakeTimer);
+            wakeTimer = null;
+        }
+        if (!isOnline()) return; // `wake` is called once the connection is back
+        while (running < concurrency) {
+            const next = items.find(item => item.status === 'queued');
+            if (!next) return;
+            const wait = cooldownUntil - Date.now();
+            if (wait > 0) {
+                wakeTimer = setTimeout(pump, wait);
+                return;
+            }
+            run(next);
+        }
+    };
+
+    const add = (files: File[], options: T) => {
+        items = [...items, ...files.map(file => ({ id: nextId++, file, options, status: 'queued' as const, rateLimitRetries: 0 }))];
+        onChange(items);
+        pump();
+    };
+
+    /** Puts a failed lecture back in the queue, without touching the rest of the batch. */
+    const retry = (id: number) => {
+        const item = items.find(entry => entry.id === id);
+        if (item?.status !== 'failed') return;
+        update(id, { status: 'queued', error: undefined, rateLimitRetries: 0 });
+        pump();
+    };
+
+    /** Removes a lecture that isn't currently being processed. */
+    const remove = (id: number) => {
+        const item = items.find(entry => entry.id === id);
+        if (!item || item.status === 'transcribing' || item.status === 'summarizing') return;
+        items = items.filter(entry => entry.id !== id);
+        onChange(items);
+    };
+
+    /** Starts waiting lectures again, e.g. when the browser comes back online. */
+    const wake = () => pump();
+
+    const clearFinished = () => {
+        items = items.filter(item => item.status !== 'done');
+        onChange(items);
+    };
+
+    return { add, retry, remove, wake, clearFinished };
+};
+
+export type BatchQueue<T> = ReturnType<typeof createBatchQueue<T>>;
@@ -0,0 +1,87 @@
+import { ChatMessage, StudyMaterials } from '../types';
+import { PipelineError } from './errors';
+import { generateJson, JsonSchema, LLMProvider } from './pipeline';
+import { isRecord } from './validation';
+
+// Grounded Q&A over a single lecture. The model only sees that lecture's notes and numbered transcript
+// passages, must cite the passages it used, and has to say so when a question can't be answered from them.
+
+const MAX_HISTORY_MESSAGES = 6;
+
+const chatAnswerSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        status: { type: 'string' },
+        answer: { type: 'string' },
+        citations: { type: 'array', items: { type: 'integer' } },
+    },
+    propertyOrdering: ["status", "answer", "citations"],
+};
+
+/** The citable units of a transcript: its segments, or its non-empty lines for entries saved before segmentation. */
+export const getTranscriptPassages = (materials: StudyMaterials) =>
+    materials.transcriptSegments?.length
+        ? materials.transcriptSegments.map(segment => `${segment.speaker}: ${segment.text}`)
+        : materials.transcript.split('\n').filter(line => line.trim() !== '');
+
+export const buildChatPrompt = (materials: StudyMaterials, history: ChatMessage[], question: string) => {
+    const passages = getTranscriptPassages(materials).map((passage, index) => `[${index}] ${passage}`).join('\n');
+    const conversation = history.slice(-MAX_HISTORY_MESSAGES)
+        .map(message => `${message.role === 'user' ? 'Student' : 'Tutor'}: ${message.text}`)
+        .join('\n');
+
+    return `You are a tutor answering a student's question about one specific lecture. Use ONLY the lecture notes and transcript passages below; never use outside knowledge.
+
+Return a single, valid JSON object with these fields:
+1. "status": "answered" if the question is about the lecture and the material answers it; "off_topic" if the question has nothing to do with the lecture; "ungrounded" if it is about the lecture's subject but the material does not contain the answer.
+2. "answer": The answer, written for the student. For "off_topic" or "ungrounded", briefly explain why you can't answer from this lecture instead.
+3. "citations": The numbers of the transcript passages the answer is based on. Must be empty unless "status" is "answered".
+
+Lecture summary:
+${materials.summary}
+
+Lecture notes:
+---
+${materials.detailedNotes}
+---
+
+Transcript passages:
+---
+${passages}
+---
+${conversation ? `\nConversation so far:\n${conversation}\n` : ''}
+Student's question: ${question}`;
+};
+
+export const answerLectureQuestion = async (
+    llm: LLMProvider,
+    materials: StudyMaterials,
+    history: ChatMessage[],
+    question: string,
+): Promise<ChatMessage> => {
+    const reply = await generateJson(llm, { prompt: buildChatPrompt(materials, history, question), responseSchema: chatAnswerSchema }, 'answer', value => {
+        if (!isRecord(value)) throw new PipelineError('invalidResponse', "The answer from the AI was not in the expected JSON format. Please try again.");
+        return {
+            status: value.status,
+            answer: typeof value.answer === 'string' ? value.answer : undefined,
+            citations: Array.isArray(value.citations) ? value.citations : [],
+        };
+    });
+
+    const passageCount = getTranscriptPassages(materials).length;
+    const citations = [...new Set(reply.citations.map(Number))]
+        .filter(index => Number.isInteger(index) && index >= 0 && index < passageCount)
+        .sort((a, b) => a - b);
+    // An "answer" that cites nothing from the lecture isn't grounded, whatever the model claims.
+    const status = reply.status === 'off_topic' ? 'off_topic'
+        : reply.status === 'answered' && citations.length > 0 ? 'answered'
+        : 'ungrounded';
+
+    return {
+        role: 'assistant',
+        text: reply.answer?.trim() || "I couldn't find an answer to that in this lecture.",
+        timestamp: Date.now(),
+        citations: status === 'answered' ? citations : [],
+        status,
+    };
+};
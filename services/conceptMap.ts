@@ -0,0 +1,82 @@
+import { ConceptLink, ConceptNode } from '../types';
+
+// Lays out a course review's concept map with a force-directed simulation (Fruchterman-Reingold): every
+// concept pushes the others away, linked concepts pull together, and a weak pull towards the middle keeps
+// unlinked ones from drifting off. Concepts start evenly spaced on a circle in their given order, so the
+// same review always gets the same layout.
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+const ITERATIONS = 300;
+const COOLING = 0.98;
+const GRAVITY = 0.1;
+const PADDING = 70; // room for the labels around the edge
+
+export const layoutConceptMap = (concepts: ConceptNode[], links: ConceptLink[], width: number, height: number): Record<string, Point> => {
+    const count = concepts.length;
+    if (count === 0) return {};
+    if (count === 1) return { [concepts[0].id]: { x: width / 2, y: height / 2 } };
+
+    const idealDistance = Math.sqrt((width * height) / count) * 0.6;
+    const positions = concepts.map((_, index) => ({
+        x: width / 2 + Math.cos((2 * Math.PI * index) / count) * width / 3,
+        y: height / 2 + Math.sin((2 * Math.PI * index) / count) * height / 3,
+    }));
+    const indexById = new Map(concepts.map((concept, index) => [concept.id, index]));
+    const edges = links.flatMap(link => {
+        const source = indexById.get(link.source);
+        const target = indexById.get(link.target);
+        return source === undefined || target === undefined ? [] : [[source, target] as const];
+    });
+
+    let temperature = width / 10;
+    for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+        const shifts = positions.map(() => ({ x: 0, y: 0 }));
+        for (let a = 0; a < count; a++) {
+            for (let b = a + 1; b < count; b++) {
+                const dx = positions[a].x - positions[b].x;
+                const dy = positions[a].y - positions[b].y;
+                const distance = Math.max(0.01, Math.hypot(dx, dy));
+                const repulsion = (idealDistance * idealDistance) / distance;
+                shifts[a].x += (dx / distance) * repulsion;
+                shifts[a].y += (dy / distance) * repulsion;
+                shifts[b].x -= (dx / distance) * repulsion;
+                shifts[b].y -= (dy / distance) * repulsion;
+            }
+        }
+        for (const [a, b] of edges) {
+            const dx = positions[a].x - positions[b].x;
+            const dy = positions[a].y - positions[b].y;
+            const distance = Math.max(0.01, Math.hypot(dx, dy));
+            const attraction = (distance * distance) / idealDistance;
+            shifts[a].x -= (dx / distance) * attraction;
+            shifts[a].y -= (dy / distance) * attraction;
+            shifts[b].x += (dx / distance) * attraction;
+            shifts[b].y += (dy / distance) * attraction;
+        }
+        positions.forEach((position, index) => {
+            const shift = shifts[index];
+            shift.x += (width / 2 - position.x) * GRAVITY;
+            shift.y += (height / 2 - position.y) * GRAVITY;
+            const length = Math.max(0.01, Math.hypot(shift.x, shift.y));
+            const step = Math.min(length, temperature);
+            position.x += (shift.x / length) * step;
+            position.y += (shift.y / length) * step;
+        });
+        temperature = Math.max(1, temperature * COOLING);
+    }
+
+    // Stretch the result to fill the drawing.
+    const xs = positions.map(position => position.x);
+    const ys = positions.map(position => position.y);
+    const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+    const scale = (value: number, min: number, max: number, size: number) =>
+        max - min < 1 ? size / 2 : PADDING + ((value - min) / (max - min)) * (size - 2 * PADDING);
+    return Object.fromEntries(concepts.map((concept, index) => [concept.id, {
+        x: scale(positions[index].x, minX, maxX, width),
+        y: scale(positions[index].y, minY, maxY, height),
+    }]));
+};
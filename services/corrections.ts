@@ -0,0 +1,85 @@
+import { TranscriptSegment, VocabularyEntry } from '../types';
+import { isRecord, isStringArray } from './validation';
+
+// Corrections to transcripts. Students fix misheard names and jargon by hand with find and replace, and can
+// keep the fixes in their course's vocabulary: its terms are given to transcription as spelling hints, and
+// the mistakes it lists are replaced in every later transcript of the course. Vocabularies are kept in
+// localStorage, by course name, like the other per-browser preferences.
+
+const VOCABULARY_KEY = 'courseVocabulary';
+
+export interface FindOptions {
+    matchCase: boolean;
+    wholeWord: boolean;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const findPattern = (find: string, { matchCase, wholeWord }: FindOptions) => {
+    const escaped = escapeRegExp(find);
+    return new RegExp(wholeWord ? `(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])` : escaped, matchCase ? 'gu' : 'giu');
+};
+
+export const countMatches = (texts: string[], find: string, options: FindOptions) => {
+    if (!find) return 0;
+    const pattern = findPattern(find, options);
+    return texts.reduce((total, text) => total + (text.match(pattern)?.length ?? 0), 0);
+};
+
+export const replaceAll = (text: string, find: string, replacement: string, options: FindOptions) =>
+    find ? text.replace(findPattern(find, options), () => replacement) : text;
+
+/** Replaces the vocabulary's known mistakes (whole words, in any case) with the right spelling. */
+export const correctText = (text: string, vocabulary: VocabularyEntry[]) => vocabulary.reduce(
+    (corrected, { term, mistakes }) => mistakes.reduce((current, mistake) => replaceAll(current, mistake, term, { matchCase: false, wholeWord: true }), corrected),
+    text,
+);
+
+export const applyVocabulary = (segments: TranscriptSegment[], vocabulary: VocabularyEntry[] = []): TranscriptSegment[] =>
+    vocabulary.some(entry => entry.mistakes.length > 0)
+        ? segments.map(segment => ({ ...segment, text: correctText(segment.text, vocabulary) }))
+        : segments;
+
+/** Records that transcription wrote `mistake` for `term`, adding the term if the vocabulary doesn't have it yet. */
+export const addCorrection = (vocabulary: VocabularyEntry[], mistake: string, term: string): VocabularyEntry[] => {
+    const existing = vocabulary.find(entry => entry.term === term);
+    if (!existing) return [...vocabulary, { term, mistakes: mistake && mistake !== term ? [mistake] : [] }];
+    if (!mistake || mistake === term || existing.mistakes.some(known => known.toLowerCase() === mistake.toLowerCase())) return vocabulary;
+    return vocabulary.map(entry => entry === existing ? { ...entry, mistakes: [...entry.mistakes, mistake] } : entry);
+};
+
+/** The vocabulary as plain text for editing: one term per line, written as "Term: mistake, mistake". */
+export const vocabularyToText = (vocabulary: VocabularyEntry[]) =>
+    vocabulary.map(({ term, mistakes }) => mistakes.length > 0 ? `${term}: ${mistakes.join(', ')}` : term).join('\n');
+
+export const textToVocabulary = (text: string): VocabularyEntry[] => text.split('\n').flatMap(line => {
+    const separator = line.indexOf(':');
+    const term = (separator === -1 ? line : line.slice(0, separator)).trim();
+    const mistakes = separator === -1 ? [] : line.slice(separator + 1).split(',').map(mistake => mistake.trim()).filter(Boolean);
+    return term ? [{ term, mistakes }] : [];
+});
+
+
+// --- PERSISTENCE ---
+// As with templates, an unreadable or unavailable localStorage only means starting without a vocabulary.
+
+const isVocabulary = (value: unknown): value is VocabularyEntry[] =>
+    Array.isArray(value) && value.every(entry => isRecord(entry) && typeof entry.term === 'string' && isStringArray(entry.mistakes));
+
+export const loadCourseVocabularies = (): Record<string, VocabularyEntry[]> => {
+    try {
+        const parsed: unknown = JSON.parse(localStorage.getItem(VOCABULARY_KEY) ?? '{}');
+        return isRecord(parsed) ? Object.fromEntries(Object.entries(parsed).filter(([, entries]) => isVocabulary(entries))) as Record<string, VocabularyEntry[]> : {};
+    } catch (err) {
+        console.error("Failed to load course vocabularies", err);
+        return {};
+    }
+};
+
+export const storeCourseVocabularies = (vocabularies: Record<string, VocabularyEntry[]>) => {
+    try {
+        localStorage.setItem(VOCABULARY_KEY, JSON.stringify(vocabularies));
+    } catch (err) {
+        console.error("Failed to save course vocabularies", err);
+    }
+};
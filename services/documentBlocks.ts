@@ -0,0 +1,143 @@
+import { StudyMaterials } from '../types';
+
+// The study materials broken into a small, format-neutral block model. The PDF and Word exporters both lay
+// out these blocks, so the two documents always contain the same content in the same order.
+
+export type DocumentSection = 'notes' | 'detailed' | 'transcript';
+
+export const SECTION_TITLES: Record<DocumentSection, string> = {
+    notes: 'Study Notes',
+    detailed: 'Detailed Notes',
+    transcript: 'Transcript',
+};
+
+export type DocumentBlock =
+    | { type: 'heading', level: 1 | 2 | 3, text: string }
+    | { type: 'paragraph', text: string }
+    | { type: 'listItem', marker: string, text: string }
+    | { type: 'code', text: string } // preformatted; may span several lines
+    | { type: 'table', rows: string[][] } // the first row is the header
+    | { type: 'definition', term: string, text: string }
+    | { type: 'speaker', label: string, text: string };
+
+// Inline math keeps its LaTeX source without the dollar signs. As in Pandoc, the opening "$" must be followed
+// and the closing one preceded by a non-space, and not followed by a digit, so "$5 and $10" is left alone.
+const stripInlineMarkdown = (text: string) => text
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/__(.+?)__/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/\$(?=\S)([^$\n]*?\S)\$(?!\d)/g, '$1');
+
+const formatTime = (seconds: number) => {
+    const total = Math.max(0, Math.floor(seconds));
+    const h = Math.floor(total / 3600);
+    const m = Math.floor((total % 3600) / 60);
+    const s = total % 60;
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${pad(m)}:${pad(s)}`;
+};
+
+const studyNotesBlocks = (materials: StudyMaterials): DocumentBlock[] => [
+    { type: 'heading', level: 2, text: 'Summary' },
+    { type: 'paragraph', text: materials.summary },
+    { type: 'heading', level: 2, text: 'Key Sections' },
+    ...materials.keySections.map((text): DocumentBlock => ({ type: 'listItem', marker: '•', text })),
+    ...(materials.formulas.length > 0 ? [
+        { type: 'heading', level: 2, text: 'Important Formulas' } as DocumentBlock,
+        ...materials.formulas.map((text): DocumentBlock => ({ type: 'code', text })),
+    ] : []),
+    ...(materials.glossary.length > 0 ? [
+        { type: 'heading', level: 2, text: 'Glossary' } as DocumentBlock,
+        ...materials.glossary.map((item): DocumentBlock => ({ type: 'definition', term: item.term, text: item.definition })),
+    ] : []),
+    { type: 'heading', level: 2, text: 'Potential Exam Questions' },
+    ...materials.examQuestions.map((text, index): DocumentBlock => ({ type: 'listItem', marker: `${index + 1}.`, text })),
+];
+
+const TABLE_SEPARATOR = /^\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?$/;
+
+const tableCells = (line: string) => line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map(cell => stripInlineMarkdown(cell.trim().replace(/\\\|/g, '|')));
+
+/**
+ * Understands the same markdown subset the notes are generated in: headings, bullet and numbered lists, tables,
+ * fenced code and display math. Code and display math become preformatted blocks with their source kept as is.
+ */
+const detailedNotesBlocks = (notes: string): DocumentBlock[] => {
+    const lines = notes.split('\n');
+    const blocks: DocumentBlock[] = [];
+    for (let i = 0; i < lines.length; i++) {
+        const rawLine = lines[i];
+        const line = rawLine.trim();
+        if (!line) continue;
+
+        // Fenced code and $$ math run until their closing line, or the end of the notes if it's missing.
+        const fence = line.match(/^(```|~~~|\$\$)(.*)$/);
+        if (fence) {
+            const [, marker, rest] = fence;
+            const body: string[] = [];
+            if (marker === '$$' && rest.trim().endsWith('$$')) {
+                body.push(rest.trim().slice(0, -2)); // $$...$$ on a single line
+            } else {
+                if (marker === '$$') body.push(rest);
+                for (i++; i < lines.length; i++) {
+                    const closing = lines[i].trim();
+                    if (marker === '$$' ? closing.endsWith('$$') : closing.startsWith(marker)) {
+                        if (marker === '$$') body.push(closing.slice(0, -2));
+                        break;
+                    }
+                    body.push(lines[i].trimEnd());
+                }
+            }
+            const text = body.join('\n').replace(/^\s*\n|\s+$/g, '');
+            if (text) blocks.push({ type: 'code', text });
+            continue;
+        }
+
+        if (line.startsWith('|') && TABLE_SEPARATOR.test(lines[i + 1]?.trim() ?? '')) {
+            const rows = [tableCells(line)];
+            for (i += 2; i < lines.length && lines[i].trim().startsWith('|'); i++) rows.push(tableCells(lines[i]));
+            i--;
+            blocks.push({ type: 'table', rows });
+            continue;
+        }
+
+        // Slide thumbnails are only shown in the app; documents keep a caption where each one was.
+        const slide = line.match(/^!\[([^\]]*)\]\(slide-\d+\)$/);
+        if (slide) {
+            blocks.push({ type: 'paragraph', text: `[${slide[1] || 'Slide'}]` });
+            continue;
+        }
+        const heading = line.match(/^(#{1,6})\s+(.*)$/);
+        const bullet = line.match(/^[*-]\s+(.*)$/);
+        const numbered = line.match(/^(\d+)[.)]\s+(.*)$/);
+        if (heading) {
+            // Note headings sit below the section title, so they start at level 2.
+            const level = Math.min(3, heading[1].length + 1) as 2 | 3;
+            blocks.push({ type: 'heading', level, text: stripInlineMarkdown(heading[2]) });
+        } else if (bullet) {
+            blocks.push({ type: 'listItem', marker: rawLine.search(/\S/) >= 2 ? '-' : '•', text: stripInlineMarkdown(bullet[1]) });
+        } else if (numbered) {
+            blocks.push({ type: 'listItem', marker: `${numbered[1]}.`, text: stripInlineMarkdown(numbered[2]) });
+        } else {
+            blocks.push({ type: 'paragraph', text: stripInlineMarkdown(line) });
+        }
+    }
+    return blocks;
+};
+
+const transcriptBlocks = (materials: StudyMaterials): DocumentBlock[] =>
+    materials.transcriptSegments?.length
+        ? materials.transcriptSegments.map((segment): DocumentBlock => ({
+            type: 'speaker', label: `[${formatTime(segment.start)}] ${segment.speaker}`, text: segment.text,
+        }))
+        : materials.transcript.split('\n').filter(line => line.trim()).map((text): DocumentBlock => ({ type: 'paragraph', text }));
+
+export const sectionBlocks = (materials: StudyMaterials, section: DocumentSection): DocumentBlock[] => {
+    switch (section) {
+        case 'notes': return studyNotesBlocks(materials);
+        case 'detailed': return detailedNotesBlocks(materials.detailedNotes);
+        case 'transcript': return transcriptBlocks(materials);
+    }
+};
@@ -0,0 +1,108 @@
+// Errors from the AI pipeline, classified by what went wrong rather than by where. Provider errors are
+// mapped onto these kinds in one place (`toPipelineError`), so retry decisions and the messages shown to
+// the student don't depend on string-matching error text all over the app.
+
+export type PipelineErrorKind =
+    | 'network' // the request never reached the service
+    | 'server' // the service failed (5xx)
+    | 'rateLimit' // too many requests in a short time
+    | 'quota' // the API key's quota is used up for the day, or there is none
+    | 'auth' // the API key is missing or was rejected
+    | 'safety' // the model refused because of its safety filters
+    | 'tooLarge' // the request or the response exceeds the model's limits
+    | 'invalidResponse' // the reply didn't match the expected shape
+    | 'badMedia' // the recording can't be read or contains nothing to transcribe
+    | 'cancelled'
+    | 'unknown';
+
+const DEFAULT_MESSAGES: Record<PipelineErrorKind, string> = {
+    network: "A network error occurred while communicating with the AI. Please check your internet connection.",
+    server: "The AI service had a temporary problem. Please try again in a moment.",
+    rateLimit: "The AI is receiving too many requests right now. Please wait a minute and try again.",
+    quota: "The Gemini API quota for this key has been used up. Check your plan and billing details, or try again once the quota resets.",
+    auth: "The Gemini API key was rejected. Check that API_KEY is set to a valid key.",
+    safety: "The AI declined to process this lecture because its safety filters flagged the content.",
+    tooLarge: "This lecture is too large for the AI to process in one request. Try a shorter or more compressed recording.",
+    invalidResponse: "The AI's response was not in the expected format. Please try again.",
+    badMedia: "The recording could not be read. It may be corrupted or in an unsupported format.",
+    cancelled: "Generation was cancelled.",
+    unknown: "An unknown error occurred. Please check the developer console for more details.",
+};
+
+// Failures that the very same request may well not hit a little later.
+const TRANSIENT_KINDS: PipelineErrorKind[] = ['network', 'server', 'rateLimit', 'invalidResponse'];
+
+const MAX_RETRIES = 3;
+const RETRY_BASE_MS = 1000;
+const RATE_LIMIT_BASE_MS = 4000;
+
+export class PipelineError extends Error {
+    kind: PipelineErrorKind;
+
+    constructor(kind: PipelineErrorKind, message = DEFAULT_MESSAGES[kind], options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = 'PipelineError';
+        this.kind = kind;
+    }
+
+    /** Whether retrying the same request automatically is worthwhile. */
+    get transient() {
+        return TRANSIENT_KINDS.includes(this.kind);
+    }
+}
+
+/** Classifies any error thrown while talking to a model provider. */
+export const toPipelineError = (err: unknown): PipelineError => {
+    if (err instanceof PipelineError) return err;
+    const message = err instanceof Error ? err.message : String(err);
+    const classify = (kind: PipelineErrorKind, keepMessage = false) =>
+        new PipelineError(kind, keepMessage ? message : undefined, { cause: err });
+
+    if (err instanceof Error && err.name === 'AbortError') return classify('cancelled');
+    // Providers attach the HTTP status to their errors; it also appears in the message of some of them.
+    const status = typeof (err as { status?: unknown })?.status === 'number'
+        ? (err as { status: number }).status
+        : Number(message.match(/\b([45]\d\d)\b/)?.[1]) || undefined;
+
+    if (status === 429 || /RESOURCE_EXHAUSTED/.test(message)) {
+        // Daily limits (and keys with no quota at all) won't clear up by waiting a few seconds.
+        return classify(/PerDay|per day|limit: 0\b/i.test(message) ? 'quota' : 'rateLimit');
+    }
+    if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID|PERMISSION_DENIED/i.test(message)) return classify('auth');
+    if (status === 413 || /payload size|too large|exceeds the maximum|token count/i.test(message)) return classify('tooLarge');
+    if (status !== undefined && status >= 500) return classify('server');
+    // fetch rejects with a TypeError when there's no response, but so does any bug; only the message tells them apart.
+    if (/xhr error|failed to fetch|network ?error|fetch failed|load failed|ECONNRESET|ETIMEDOUT/i.test(message)) return classify('network');
+    return classify('unknown', message !== '');
+};
+
+/** Resolves after `ms`, or rejects as soon as `signal` is aborted. */
+export const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+    }, { once: true });
+});
+
+/**
+ * Runs a model request, retrying transient failures with exponential backoff and jitter. Rate limits back
+ * off from a longer base delay. Anything else, or the last failure, is thrown as a PipelineError.
+ */
+export const withRetry = async <T>(operation: () => Promise<T>, { signal, retries = MAX_RETRIES }: { signal?: AbortSignal, retries?: number } = {}): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await operation();
+        } catch (err) {
+            const error = toPipelineError(err);
+            if (!error.transient || attempt >= retries || signal?.aborted) throw error;
+            const base = error.kind === 'rateLimit' ? RATE_LIMIT_BASE_MS : RETRY_BASE_MS;
+            console.warn(`Retrying after a ${error.kind} error (attempt ${attempt + 1} of ${retries})`, err);
+            await delay(base * 2 ** attempt * (0.75 + Math.random() * 0.5), signal);
+        }
+    }
+};
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { sectionBlocks } from './documentBlocks';
+import { JSON_BUNDLE_FORMAT, toAnkiCsv, toDocx, toJsonBundle, toMarkdown, toSrt, toVtt } from './exporters';
+import { fillMissingMaterials } from './pipeline';
+import { readZip } from './zip';
+
+const materials = fillMissingMaterials({
+    summary: "An introduction to Newton's laws.",
+    keySections: ['First law', 'Second law'],
+    formulas: ['F = ma'],
+    glossary: [
+        { term: 'Force', definition: 'A push or a pull, measured in newtons.' },
+        { term: 'Inertia, "mass"', definition: 'Resistance to a change\nin motion.' },
+    ],
+    examQuestions: ["State Newton's second law."],
+    detailedNotes: '# Motion\n\nObjects keep moving.\n\n## Forces & <mass>\n\n- F = ma',
+    transcript: 'Transcript',
+    transcriptSegments: [
+        { start: 0, end: 4.5, speaker: 'Instructor', text: 'Welcome <everyone> & hello.' },
+        { start: 3599.9996, end: 3723.25, speaker: 'Student', text: 'A question.' },
+        { start: 3724, end: 3725, speaker: 'Student', text: '   ' },
+    ],
+});
+
+describe('toMarkdown', () => {
+    it('writes every section, with the notes headings below the section heading', () => {
+        const markdown = toMarkdown(materials, 'Physics 101');
+        expect(markdown).toContain("# Physics 101\n\n## Summary\n\nAn introduction to Newton's laws.");
+        expect(markdown).toContain('## Key Sections\n\n- First law\n- Second law');
+        expect(markdown).toContain('## Important Formulas\n\n- $F = ma$');
+        expect(markdown).toContain('- **Force**: A push or a pull, measured in newtons.');
+        expect(markdown).toContain("## Potential Exam Questions\n\n1. State Newton's second law.");
+        expect(markdown).toContain('## Detailed Notes\n\n### Motion');
+        expect(markdown).toContain('#### Forces & <mass>');
+    });
+
+    it('leaves out empty optional sections', () => {
+        const markdown = toMarkdown({ ...materials, formulas: [], glossary: [], detailedNotes: '' }, 'Lecture');
+        expect(markdown).not.toContain('## Important Formulas');
+        expect(markdown).not.toContain('## Glossary');
+        expect(markdown).not.toContain('## Detailed Notes');
+    });
+});
+
+describe('toAnkiCsv', () => {
+    it('writes the import headers and one quoted note per term', () => {
+        expect(toAnkiCsv(materials, 'Physics\n101')).toBe([
+            '#separator:comma',
+            '#html:false',
+            '#deck:Physics 101',
+            '#columns:Front,Back',
+            '"Force","A push or a pull, measured in newtons."',
+            '"Inertia, ""mass""","Resistance to a change\nin motion."',
+        ].join('\n') + '\n');
+    });
+});
+
+describe('captions', () => {
+    it('writes SRT cues with comma milliseconds, rolling over into hours', () => {
+        expect(toSrt(materials)).toBe([
+            '1\n00:00:00,000 --> 00:00:04,500\nInstructor: Welcome <everyone> & hello.',
+            '2\n01:00:00,000 --> 01:02:03,250\nStudent: A question.',
+        ].join('\n\n') + '\n');
+    });
+
+    it('writes WebVTT cues with voice spans and escaped text', () => {
+        expect(toVtt(materials)).toBe([
+            'WEBVTT',
+            '00:00:00.000 --> 00:00:04.500\n<v Instructor>Welcome &lt;everyone&gt; &amp; hello.',
+            '01:00:00.000 --> 01:02:03.250\n<v Student>A question.',
+        ].join('\n\n') + '\n');
+    });
+});
+
+describe('sectionBlocks', () => {
+    it('turns tables, fenced code and math in the detailed notes into their own blocks', () => {
+        const detailedNotes = [
+            'Costs $5 and $10; the rate is $v = d/t$.',
+            '| Law | Formula |',
+            '| --- | :-: |',
+            '| **Second** | $F = ma$ |',
+            '| Pipe | a \\| b |',
+            '```python',
+            'def force(m, a):',
+            '    return m * a',
+            '```',
+            '$$',
+            'E = mc^2',
+            '$$',
+            '$$p = mv$$',
+        ].join('\n');
+
+        expect(sectionBlocks({ ...materials, detailedNotes }, 'detailed')).toEqual([
+            { type: 'paragraph', text: 'Costs $5 and $10; the rate is v = d/t.' },
+            { type: 'table', rows: [['Law', 'Formula'], ['Second', 'F = ma'], ['Pipe', 'a | b']] },
+            { type: 'code', text: 'def force(m, a):\n    return m * a' },
+            { type: 'code', text: 'E = mc^2' },
+            { type: 'code', text: 'p = mv' },
+        ]);
+    });
+});
+
+describe('toDocx', () => {
+    it('is a Word package whose document holds the sections in order', async () => {
+        const files = await readZip(new Blob([toDocx(materials, { title: 'Physics & more', sections: ['notes', 'detailed'] })]));
+
+        expect([...files.keys()]).toEqual(expect.arrayContaining(['[Content_Types].xml', '_rels/.rels', 'word/document.xml', 'word/styles.xml']));
+        const document = await files.get('word/document.xml')!.text();
+        const texts = [...document.matchAll(/<w:t xml:space="preserve">([^<]*)<\/w:t>/g)].map(match => match[1]);
+        expect(texts.slice(0, 3)).toEqual(['Physics &amp; more', 'Study Notes', 'Summary']);
+        expect(texts).toContain('Inertia, &quot;mass&quot;: ');
+        expect(texts.indexOf('Detailed Notes')).toBeGreaterThan(texts.indexOf('Potential Exam Questions'));
+        expect(texts).toContain('Forces &amp; &lt;mass&gt;');
+        expect(document).not.toContain('Transcript');
+    });
+
+    it('writes notes tables as Word tables with a repeated header row, and code line by line', async () => {
+        const detailedNotes = '| Law | Formula |\n|---|---|\n| Second | F = ma |\n\n```\nline one\nline two\n```';
+        const files = await readZip(new Blob([toDocx({ ...materials, detailedNotes }, { title: 'Physics', sections: ['detailed'] })]));
+        const document = await files.get('word/document.xml')!.text();
+
+        expect(document.match(/<w:tr>/g)).toHaveLength(2);
+        expect(document.match(/<w:gridCol /g)).toHaveLength(2);
+        expect(document).toMatch(/<w:tr><w:trPr><w:tblHeader\/><\/w:trPr>.*?<w:b\/>.*?Law/);
+        expect(document).toContain('line one</w:t></w:r><w:r><w:br/></w:r><w:r>');
+        expect(document).not.toContain('|');
+    });
+});
+
+describe('toJsonBundle', () => {
+    it('keeps the materials unchanged under a versioned format marker', () => {
+        const bundle = JSON.parse(toJsonBundle(materials, 'Physics 101'));
+        expect(bundle).toEqual({ format: JSON_BUNDLE_FORMAT, version: 1, title: 'Physics 101', materials });
+    });
+});
@@ -0,0 +1,226 @@
+import { StudyMaterials, TranscriptSegment } from '../types';
+import { DocumentBlock, DocumentSection, SECTION_TITLES, sectionBlocks } from './documentBlocks';
+import { createZip } from './zip';
+
+// Converters from StudyMaterials to the formats students take their notes elsewhere in. Every exporter is a
+// pure function of its input; exportStudyMaterials wraps the result in a Blob ready to be downloaded.
+
+export type ExportFormat = 'markdown' | 'anki' | 'srt' | 'vtt' | 'docx' | 'json';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string, extension: string, mimeType: string }> = {
+    markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+    anki: { label: 'Anki deck (CSV)', extension: 'csv', mimeType: 'text/csv' },
+    srt: { label: 'Captions (SRT)', extension: 'srt', mimeType: 'application/x-subrip' },
+    vtt: { label: 'Captions (VTT)', extension: 'vtt', mimeType: 'text/vtt' },
+    docx: { label: 'Word (DOCX)', extension: 'docx', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+    json: { label: 'JSON bundle', extension: 'json', mimeType: 'application/json' },
+};
+
+/** Whether a format has anything to export for these materials, e.g. captions need timed segments. */
+export const canExport = (materials: StudyMaterials, format: ExportFormat) => {
+    switch (format) {
+        case 'anki': return materials.glossary.length > 0;
+        case 'srt':
+        case 'vtt': return (materials.transcriptSegments?.length ?? 0) > 0;
+        default: return true;
+    }
+};
+
+
+// --- MARKDOWN ---
+
+export const toMarkdown = (materials: StudyMaterials, title: string) => {
+    // The notes use their own "#" headings; push them below the section heading. Slide references become
+    // the slide images themselves, so the file stands on its own.
+    const detailedNotes = materials.detailedNotes.trim()
+        .replace(/^(#{1,6})(?=\s)/gm, hashes => '#'.repeat(Math.min(6, hashes.length + 2)))
+        .replace(/!\[([^\]]*)\]\(slide-(\d+)\)/g, (_, alt: string, number: string) => {
+            const slide = materials.slides?.[Number(number) - 1];
+            return slide ? `![${alt}](${slide.image})` : '';
+        });
+    return [
+        `# ${title}`,
+        '## Summary',
+        materials.summary,
+        '## Key Sections',
+        materials.keySections.map(section => `- ${section}`).join('\n'),
+        ...(materials.formulas.length > 0 ? ['## Important Formulas', materials.formulas.map(formula => `- $${formula}$`).join('\n')] : []),
+        ...(materials.glossary.length > 0 ? ['## Glossary', materials.glossary.map(item => `- **${item.term}**: ${item.definition}`).join('\n')] : []),
+        '## Potential Exam Questions',
+        materials.examQuestions.map((question, index) => `${index + 1}. ${question}`).join('\n'),
+        ...(detailedNotes ? ['## Detailed Notes', detailedNotes] : []),
+    ].join('\n\n') + '\n';
+};
+
+
+// --- ANKI ---
+
+const csvField = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+/**
+ * A CSV deck with one glossary term per note. The header lines tell Anki (2.1.55+) the separator, the
+ * deck name and that the fields are plain text, so the file imports without touching the import dialog.
+ */
+export const toAnkiCsv = (materials: StudyMaterials, deckName: string) => [
+    '#separator:comma',
+    '#html:false',
+    `#deck:${deckName.replace(/[\r\n]+/g, ' ')}`,
+    '#columns:Front,Back',
+    ...materials.glossary.map(item => `${csvField(item.term)},${csvField(item.definition)}`),
+].join('\n') + '\n';
+
+
+// --- CAPTIONS ---
+
+const formatCaptionTime = (seconds: number, decimalSeparator: ',' | '.') => {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+    const h = Math.floor(totalMs / 3_600_000);
+    const m = Math.floor((totalMs % 3_600_000) / 60_000);
+    const s = Math.floor((totalMs % 60_000) / 1000);
+    return `${pad(h)}:${pad(m)}:${pad(s)}${decimalSeparator}${pad(totalMs % 1000, 3)}`;
+};
+
+const captionSegments = (materials: StudyMaterials): TranscriptSegment[] =>
+    (materials.transcriptSegments ?? []).filter(segment => segment.text.trim());
+
+export const toSrt = (materials: StudyMaterials) =>
+    captionSegments(materials).map((segment, index) => [
+        String(index + 1),
+        `${formatCaptionTime(segment.start, ',')} --> ${formatCaptionTime(Math.max(segment.end, segment.start), ',')}`,
+        `${segment.speaker}: ${segment.text.trim()}`,
+    ].join('\n')).join('\n\n') + '\n';
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/** WebVTT captions, with speakers as voice spans so players can style or announce them. */
+export const toVtt = (materials: StudyMaterials) => [
+    'WEBVTT',
+    ...captionSegments(materials).map(segment => [
+        `${formatCaptionTime(segment.start, '.')} --> ${formatCaptionTime(Math.max(segment.end, segment.start), '.')}`,
+        `<v ${escapeVtt(segment.speaker)}>${escapeVtt(segment.text.trim())}`,
+    ].join('\n')),
+].join('\n\n') + '\n';
+
+
+// --- DOCX ---
+
+const escapeXml = (text: string) => text
+    // Control characters other than tab and newline are not allowed in XML 1.0.
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const run = (text: string, props = '') =>
+    `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+
+const paragraph = (runs: string, props = '') => `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${runs}</w:p>`;
+
+const PAGE_CONTENT_WIDTH = 11906 - 2 * 1134; // twips; A4 less the margins set in toDocx
+const TABLE_BORDERS = ['top', 'left', 'bottom', 'right', 'insideH', 'insideV']
+    .map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="C9BEDA"/>`).join('');
+
+const table = (rows: string[][]) => {
+    const columns = Math.max(...rows.map(row => row.length));
+    const width = Math.floor(PAGE_CONTENT_WIDTH / columns);
+    const cell = (text: string, isHeader: boolean) =>
+        `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/>${isHeader ? '<w:shd w:val="clear" w:color="auto" w:fill="F3EEFA"/>' : ''}</w:tcPr>${paragraph(run(text, isHeader ? '<w:b/>' : ''), '<w:spacing w:after="0"/>')}</w:tc>`;
+    const tableRows = rows.map((row, index) =>
+        `<w:tr>${index === 0 ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${Array.from({ length: columns }, (_, column) => cell(row[column] ?? '', index === 0)).join('')}</w:tr>`);
+    // Word needs a paragraph between a table and whatever follows it; it also gives the table some space.
+    return `<w:tbl><w:tblPr><w:tblW w:w="${width * columns}" w:type="dxa"/><w:tblBorders>${TABLE_BORDERS}</w:tblBorders><w:tblCellMar><w:left w:w="80" w:type="dxa"/><w:right w:w="80" w:type="dxa"/></w:tblCellMar></w:tblPr><w:tblGrid>${`<w:gridCol w:w="${width}"/>`.repeat(columns)}</w:tblGrid>${tableRows.join('')}</w:tbl>${paragraph('')}`;
+};
+
+const blockToDocxXml = (block: DocumentBlock, isFirstSection: boolean) => {
+    switch (block.type) {
+        case 'heading':
+            return paragraph(run(block.text), `<w:pStyle w:val="Heading${block.level}"/>${block.level === 1 && !isFirstSection ? '<w:pageBreakBefore/>' : ''}`);
+        case 'paragraph':
+            return paragraph(run(block.text));
+        case 'listItem':
+            return paragraph(`${run(block.marker)}<w:r><w:tab/></w:r>${run(block.text)}`, '<w:ind w:left="360" w:hanging="360"/>');
+        case 'code':
+            return paragraph(block.text.split('\n').map(line => run(line)).join('<w:r><w:br/></w:r>'), '<w:pStyle w:val="Code"/>');
+        case 'table':
+            return table(block.rows);
+        case 'definition':
+            return paragraph(`${run(`${block.term}: `, '<w:b/>')}${run(block.text)}`);
+        case 'speaker':
+            return paragraph(run(block.label, '<w:b/><w:color w:val="7B1FA2"/><w:sz w:val="18"/>'), '<w:keepNext/><w:spacing w:after="0"/>')
+                + paragraph(run(block.text), '<w:ind w:left="240"/>');
+    }
+};
+
+const DOCX_CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/><Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>`;
+
+const DOCX_ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/></Relationships>`;
+
+const DOCX_DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`;
+
+const headingStyle = (id: string, name: string, size: number, color: string, outlineLevel?: number) =>
+    `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/>${outlineLevel !== undefined ? `<w:outlineLvl w:val="${outlineLevel}"/>` : ''}</w:pPr><w:rPr><w:b/><w:color w:val="${color}"/><w:sz w:val="${size}"/></w:rPr></w:style>`;
+
+const DOCX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri" w:eastAsia="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults><w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>${headingStyle('Title', 'Title', 48, '7B1FA2')}${headingStyle('Heading1', 'heading 1', 32, '7B1FA2', 0)}${headingStyle('Heading2', 'heading 2', 26, '212121', 1)}${headingStyle('Heading3', 'heading 3', 23, '212121', 2)}<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F3EEFA"/><w:ind w:left="240" w:right="240"/></w:pPr><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="20"/></w:rPr></w:style></w:styles>`;
+
+/** A Word document containing the given sections, in order, using Word's built-in heading styles. */
+export const toDocx = (materials: StudyMaterials, { title, sections }: { title: string, sections: DocumentSection[] }): Uint8Array => {
+    const body = [
+        paragraph(run(title), '<w:pStyle w:val="Title"/>'),
+        ...sections.flatMap((section, index) => [
+            { type: 'heading', level: 1, text: SECTION_TITLES[section] } as DocumentBlock,
+            ...sectionBlocks(materials, section),
+        ].map(block => blockToDocxXml(block, index === 0))),
+    ].join('');
+
+    const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="709" w:footer="709" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+    const core = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>${escapeXml(title)}</dc:title><dc:creator>Class Whisper</dc:creator></cp:coreProperties>`;
+
+    return createZip([
+        { name: '[Content_Types].xml', data: DOCX_CONTENT_TYPES },
+        { name: '_rels/.rels', data: DOCX_ROOT_RELS },
+        { name: 'docProps/core.xml', data: core },
+        { name: 'word/document.xml', data: document },
+        { name: 'word/_rels/document.xml.rels', data: DOCX_DOCUMENT_RELS },
+        { name: 'word/styles.xml', data: DOCX_STYLES },
+    ]);
+};
+
+
+// --- JSON ---
+
+export const JSON_BUNDLE_FORMAT = 'class-whisper/study-materials';
+
+export interface StudyMaterialsBundle {
+    format: typeof JSON_BUNDLE_FORMAT;
+    version: 1;
+    title: string;
+    materials: StudyMaterials;
+}
+
+/** Everything the app generated for a lecture, unchanged, so nothing is lost when it is read back. */
+export const toJsonBundle = (materials: StudyMaterials, title: string) => {
+    const bundle: StudyMaterialsBundle = { format: JSON_BUNDLE_FORMAT, version: 1, title, materials };
+    return JSON.stringify(bundle, null, 2);
+};
+
+
+export const exportStudyMaterials = (materials: StudyMaterials, format: ExportFormat, title: string): Blob => {
+    const { mimeType } = EXPORT_FORMATS[format];
+    switch (format) {
+        case 'markdown': return new Blob([toMarkdown(materials, title)], { type: mimeType });
+        case 'anki': return new Blob([toAnkiCsv(materials, title)], { type: mimeType });
+        case 'srt': return new Blob([toSrt(materials)], { type: mimeType });
+        case 'vtt': return new Blob([toVtt(materials)], { type: mimeType });
+        case 'docx': return new Blob([toDocx(materials, { title, sections: ['notes', 'detailed', 'transcript'] })], { type: mimeType });
+        case 'json': return new Blob([toJsonBundle(materials, title)], { type: mimeType });
+    }
+};
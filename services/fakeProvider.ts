@@ -0,0 +1,41 @@
+import { TranscriptSegment } from '../types';
+import { GenerateRequest, LLMProvider, TranscribeOptions, TranscriptionProvider } from './pipeline';
+
+// In-memory providers with canned replies, for exercising the pipeline without a network or an API key.
+
+type Reply<T> = T | Error | ((request: GenerateRequest) => T | Promise<T>);
+
+const resolveReply = async <T>(reply: Reply<T>, request: GenerateRequest): Promise<T> => {
+    if (reply instanceof Error) throw reply;
+    if (typeof reply === 'function') return (reply as (request: GenerateRequest) => T | Promise<T>)(request);
+    return reply;
+};
+
+export const createFakeTranscriptionProvider = (segments: TranscriptSegment[] | Error): TranscriptionProvider & { calls: number } => {
+    const provider = {
+        calls: 0,
+        transcribe: async (_file: File, { onProgress }: TranscribeOptions) => {
+            provider.calls++;
+            onProgress?.({ stage: 'transcribing', completedChunks: 0, totalChunks: 1 });
+            if (segments instanceof Error) throw segments;
+            onProgress?.({ stage: 'transcribing', completedChunks: 1, totalChunks: 1 });
+            return segments;
+        },
+    };
+    return provider;
+};
+
+/**
+ * Structured requests (those with a `responseSchema`) get `jsonReply`; plain-text requests get `textReply`.
+ * Every request is recorded in `requests` so prompts can be inspected.
+ */
+export const createFakeLLMProvider = ({ jsonReply, textReply }: { jsonReply: Reply<string>, textReply: Reply<string> }): LLMProvider & { requests: GenerateRequest[] } => {
+    const requests: GenerateRequest[] = [];
+    return {
+        requests,
+        generate: async (request) => {
+            requests.push(request);
+            return resolveReply(request.responseSchema ? jsonReply : textReply, request);
+        },
+    };
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { buildFlashcards, gradeCard, reconcileFlashcards } from './flashcards';
+import { fillMissingMaterials } from './pipeline';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const materials = fillMissingMaterials({
+    glossary: [
+        { term: 'Force', definition: 'A push or a pull.' },
+        { term: 'Mass', definition: 'How much matter there is.' },
+    ],
+    examQuestions: ["State Newton's second law.", 'What is inertia?'],
+});
+
+describe('gradeCard', () => {
+    it('schedules a card 1, then 6 days out, then by its ease factor', () => {
+        const [card] = buildFlashcards(materials, [], 0);
+        const first = gradeCard(card, 4, 0);
+        const second = gradeCard(first, 4, 0);
+        const third = gradeCard(second, 4, 0);
+        expect([first.interval, second.interval, third.interval]).toEqual([1, 6, 15]);
+        expect(third.dueDate).toBe(15 * DAY_MS);
+    });
+
+    it('sends a forgotten card back to the start', () => {
+        const [card] = buildFlashcards(materials, [], 0);
+        const forgotten = gradeCard(gradeCard(gradeCard(card, 5, 0), 5, 0), 1, 0);
+        expect(forgotten).toMatchObject({ repetitions: 0, interval: 1 });
+        expect(forgotten.easeFactor).toBeLessThan(card.easeFactor);
+    });
+});
+
+describe('reconcileFlashcards', () => {
+    const studied = buildFlashcards(materials, ['Force is mass times acceleration.', 'Resistance to change in motion.'], 0)
+        .map(card => card.front === 'Mass' ? gradeCard(card, 5, 0) : card);
+
+    it('keeps each card with its term when the glossary is reordered', () => {
+        const reordered = { ...materials, glossary: [...materials.glossary].reverse() };
+        const mass = reconcileFlashcards(studied, reordered, 0).find(card => card.front === 'Mass');
+        expect(mass).toEqual(studied.find(card => card.front === 'Mass'));
+    });
+
+    it('updates edited definitions, adds new terms and drops removed ones', () => {
+        const edited = {
+            ...materials,
+            glossary: [{ term: 'Mass', definition: 'The amount of matter in an object.' }, { term: 'Velocity', definition: 'Speed with a direction.' }],
+            examQuestions: ['What is inertia?', 'A brand new question?'],
+        };
+        const cards = reconcileFlashcards(studied, edited, 0);
+        expect(cards.map(card => card.front)).toEqual(['Mass', 'Velocity', 'What is inertia?']);
+        expect(cards[0]).toMatchObject({ back: 'The amount of matter in an object.', repetitions: 1 });
+        expect(cards[2].back).toBe('Resistance to change in motion.');
+    });
+
+    it('matches decks saved with positional ids', () => {
+        const legacy = studied.map((card, index) => ({ ...card, id: `${card.kind}-${index}` }));
+        const cards = reconcileFlashcards(legacy, materials, 0);
+        expect(cards.map(card => card.id)).toEqual(studied.map(card => card.id));
+        expect(cards.find(card => card.front === 'Mass')?.repetitions).toBe(1);
+    });
+});
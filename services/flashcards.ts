@@ -0,0 +1,97 @@
+import { Flashcard, HistoryItem, StudyMaterials } from '../types';
+
+// Spaced repetition using the SM-2 algorithm: grades run from 0 (blackout) to 5 (perfect recall),
+// and anything below 3 sends the card back to the start.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+
+export type Grade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface DueCard {
+  historyId: number;
+  lectureName: string;
+  card: Flashcard;
+}
+
+const newCard = (id: string, kind: Flashcard['kind'], front: string, back: string, now: number): Flashcard => ({
+    id,
+    kind,
+    front,
+    back,
+    repetitions: 0,
+    interval: 0,
+    easeFactor: INITIAL_EASE_FACTOR,
+    dueDate: now,
+});
+
+// Cards are identified by what they ask rather than by position, so a card keeps its schedule when the
+// glossary or the exam questions are edited, reordered or rebuilt.
+const cardId = (kind: Flashcard['kind'], front: string) => `${kind}:${front.trim().toLowerCase()}`;
+
+const withoutDuplicates = (cards: Flashcard[]) => [...new Map(cards.map(card => [card.id, card])).values()];
+
+/** Builds one card per glossary term and one per exam question. `answers` line up with `examQuestions`. */
+export const buildFlashcards = (materials: StudyMaterials, answers: string[], now = Date.now()): Flashcard[] => withoutDuplicates([
+    ...materials.glossary.map(item => newCard(cardId('glossary', item.term), 'glossary', item.term, item.definition, now)),
+    ...materials.examQuestions.map((question, index) => newCard(cardId('question', question), 'question', question, answers[index] ?? '', now)),
+]);
+
+/**
+ * Brings a deck in line with changed materials. Cards whose term or question is still there keep their schedule,
+ * glossary cards pick up edited definitions, new terms get new cards and cards for removed ones are dropped.
+ * New exam questions are left out, since their answers are only written when the deck is created.
+ */
+export const reconcileFlashcards = (cards: Flashcard[], materials: StudyMaterials, now = Date.now()): Flashcard[] => {
+    // Matched by kind and front rather than id, so decks from before ids were stable are matched too.
+    const existing = new Map(cards.map(card => [cardId(card.kind, card.front), card]));
+    return withoutDuplicates([
+        ...materials.glossary.map(item => {
+            const id = cardId('glossary', item.term);
+            const card = existing.get(id);
+            return card ? { ...card, id, front: item.term, back: item.definition } : newCard(id, 'glossary', item.term, item.definition, now);
+        }),
+        ...materials.examQuestions.flatMap(question => {
+            const id = cardId('question', question);
+            const card = existing.get(id);
+            return card ? [{ ...card, id }] : [];
+        }),
+    ]);
+};
+
+export const gradeCard = (card: Flashcard, grade: Grade, now = Date.now()): Flashcard => {
+    let { repetitions, interval } = card;
+    if (grade >= 3) {
+        interval = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(interval * card.easeFactor);
+        repetitions += 1;
+    } else {
+        repetitions = 0;
+        interval = 1;
+    }
+    const easeFactor = Math.max(MIN_EASE_FACTOR, card.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)));
+    return { ...card, repetitions, interval, easeFactor, dueDate: now + interval * DAY_MS };
+};
+
+const endOfDay = (now: number) => {
+    const date = new Date(now);
+    date.setHours(23, 59, 59, 999);
+    return date.getTime();
+};
+
+export const isDueToday = (card: Flashcard, now = Date.now()) => card.dueDate <= endOfDay(now);
+
+/** Collects every card due today across all saved lectures, most overdue first. */
+export const getDueCards = (history: HistoryItem[], now = Date.now()): DueCard[] =>
+    history
+        .flatMap(item => (item.flashcards ?? [])
+            .filter(card => isDueToday(card, now))
+            .map(card => ({ historyId: item.id, lectureName: item.filename, card })))
+        .sort((a, b) => a.card.dueDate - b.card.dueDate);
+
+export const formatInterval = (days: number) => {
+    if (days <= 1) return '1 day';
+    if (days < 30) return `${days} days`;
+    const months = Math.round(days / 30);
+    return months === 1 ? '1 month' : `${months} months`;
+};
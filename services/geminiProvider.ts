@@ -0,0 +1,55 @@
+import { GoogleGenAI, Schema, Type } from '@google/genai';
+import { JsonSchema, LLMProvider, TranscriptionProvider } from './pipeline';
+import { toPipelineError } from './errors';
+import { readResponseText, transcribeMedia } from './transcription';
+
+export const DEFAULT_MODEL = "gemini-2.5-flash";
+
+// The models offered for writing study guides, fastest first.
+export const GEMINI_MODELS = [
+    { id: "gemini-2.5-flash-lite", label: "Gemini 2.5 Flash-Lite (fastest)" },
+    { id: DEFAULT_MODEL, label: "Gemini 2.5 Flash" },
+    { id: "gemini-2.5-pro", label: "Gemini 2.5 Pro (most thorough)" },
+];
+
+/** Converts the pipeline's neutral schema into the shape `@google/genai` expects. */
+export const toGeminiSchema = (schema: JsonSchema): Schema => ({
+    type: schema.type.toUpperCase() as Type,
+    ...(schema.properties && {
+        properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])),
+    }),
+    ...(schema.items && { items: toGeminiSchema(schema.items) }),
+    ...(schema.propertyOrdering && { propertyOrdering: schema.propertyOrdering }),
+});
+
+export const createGeminiLLMProvider = (ai: GoogleGenAI, model = DEFAULT_MODEL): LLMProvider => ({
+    generate: async ({ prompt, attachments = [], responseSchema, signal }) => {
+        let result;
+        try {
+            result = await ai.models.generateContent({
+                model,
+                contents: { parts: [...attachments.map(attachment => ({ inlineData: attachment })), { text: prompt }] },
+                config: {
+                    abortSignal: signal,
+                    ...(responseSchema && { responseMimeType: "application/json", responseSchema: toGeminiSchema(responseSchema) }),
+                },
+            });
+        } catch (err) {
+            throw toPipelineError(err);
+        }
+        return readResponseText(result, { structured: !!responseSchema });
+    },
+});
+
+export const createGeminiTranscriptionProvider = (ai: GoogleGenAI): TranscriptionProvider => ({
+    transcribe: (file, options) => transcribeMedia(ai, file, options),
+});
+
+/** Transcription always uses its own model; `model` only applies to the language model. */
+export const createGeminiProviders = (apiKey: string, model = DEFAULT_MODEL) => {
+    const ai = new GoogleGenAI({ apiKey });
+    return {
+        transcriber: createGeminiTranscriptionProvider(ai),
+        llm: createGeminiLLMProvider(ai, model),
+    };
+};
@@ -0,0 +1,118 @@
+import { SlideFrame } from '../types';
+import { SlideDetector } from './pipeline';
+
+// Slide and whiteboard capture for video lectures. A hidden <video> element is seeked through the recording
+// every SAMPLE_SECONDS and each frame is drawn to a canvas and reduced to a tiny greyscale fingerprint.
+// A frame that differs enough from the last captured one becomes a candidate, and is only kept once the
+// next sample confirms the picture has settled, so slide transitions and the lecturer walking past the
+// camera aren't captured. A whiteboard filling up slowly is captured each time enough has been added.
+
+const SAMPLE_SECONDS = 5;
+const FINGERPRINT_WIDTH = 32;
+const FINGERPRINT_HEIGHT = 18;
+const CHANGE_THRESHOLD = 0.08; // mean brightness difference (0 to 1) that counts as a new slide
+const SETTLED_THRESHOLD = 0.03; // how little the next sample may differ for the candidate to be kept
+const THUMBNAIL_WIDTH = 640;
+const THUMBNAIL_QUALITY = 0.7;
+const MAX_SLIDES = 60;
+
+interface Sample {
+    time: number;
+    fingerprint: Float32Array;
+    image: string;
+    change: number; // difference from the slide before it
+}
+
+const waitForEvent = (target: EventTarget, event: string, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+        target.removeEventListener(event, onEvent);
+        target.removeEventListener('error', onError);
+        signal?.removeEventListener('abort', onAbort);
+    };
+    const onEvent = () => { cleanup(); resolve(); };
+    const onError = () => { cleanup(); reject(new Error("The video could not be read for slide capture.")); };
+    const onAbort = () => { cleanup(); reject(signal!.reason); };
+    target.addEventListener(event, onEvent, { once: true });
+    target.addEventListener('error', onError, { once: true });
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const fingerprintOf = (context: CanvasRenderingContext2D, video: HTMLVideoElement) => {
+    context.drawImage(video, 0, 0, FINGERPRINT_WIDTH, FINGERPRINT_HEIGHT);
+    const { data } = context.getImageData(0, 0, FINGERPRINT_WIDTH, FINGERPRINT_HEIGHT);
+    const fingerprint = new Float32Array(FINGERPRINT_WIDTH * FINGERPRINT_HEIGHT);
+    for (let i = 0; i < fingerprint.length; i++) {
+        fingerprint[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+    }
+    return fingerprint;
+};
+
+const difference = (a: Float32Array, b: Float32Array) => {
+    let total = 0;
+    for (let i = 0; i < a.length; i++) total += Math.abs(a[i] - b[i]);
+    return total / a.length;
+};
+
+/** Keeps the most distinct slides when a lecture has more than MAX_SLIDES, in their original order. */
+const limitSlides = (samples: Sample[]) => samples.length <= MAX_SLIDES
+    ? samples
+    : [...samples].sort((a, b) => b.change - a.change).slice(0, MAX_SLIDES).sort((a, b) => a.time - b.time);
+
+/** Finds the distinct slides and whiteboard states in a video. Audio-only files have none. */
+export const detectSlides = async (file: File, { signal, onProgress }: { signal?: AbortSignal, onProgress?: (fraction: number) => void } = {}): Promise<SlideFrame[]> => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    try {
+        const loaded = waitForEvent(video, 'loadeddata', signal);
+        video.src = url;
+        await loaded;
+        if (!video.videoWidth || !Number.isFinite(video.duration)) return [];
+
+        const fingerprintCanvas = document.createElement('canvas');
+        fingerprintCanvas.width = FINGERPRINT_WIDTH;
+        fingerprintCanvas.height = FINGERPRINT_HEIGHT;
+        const fingerprintContext = fingerprintCanvas.getContext('2d', { willReadFrequently: true })!;
+        const thumbnailCanvas = document.createElement('canvas');
+        thumbnailCanvas.width = Math.min(THUMBNAIL_WIDTH, video.videoWidth);
+        thumbnailCanvas.height = Math.round(video.videoHeight * thumbnailCanvas.width / video.videoWidth);
+        const thumbnailContext = thumbnailCanvas.getContext('2d')!;
+        const captureThumbnail = () => {
+            thumbnailContext.drawImage(video, 0, 0, thumbnailCanvas.width, thumbnailCanvas.height);
+            return thumbnailCanvas.toDataURL('image/jpeg', THUMBNAIL_QUALITY);
+        };
+
+        const kept: Sample[] = [];
+        let candidate: Sample | null = null;
+        for (let time = 0; time < video.duration; time += SAMPLE_SECONDS) {
+            signal?.throwIfAborted();
+            const seeked = waitForEvent(video, 'seeked', signal);
+            video.currentTime = time;
+            await seeked;
+
+            const fingerprint = fingerprintOf(fingerprintContext, video);
+            if (candidate && difference(fingerprint, candidate.fingerprint) < SETTLED_THRESHOLD) {
+                kept.push(candidate);
+                candidate = null;
+            } else {
+                const last = kept[kept.length - 1];
+                const change = last ? difference(fingerprint, last.fingerprint) : 1;
+                // A frame that is still changing replaces the candidate; one that is back to the current slide clears it.
+                candidate = change >= CHANGE_THRESHOLD ? { time, fingerprint, image: captureThumbnail(), change } : null;
+            }
+            onProgress?.(Math.min(1, (time + SAMPLE_SECONDS) / video.duration));
+        }
+        if (candidate) kept.push(candidate); // the video ended on it
+
+        return limitSlides(kept).map(({ time, image }) => ({ time, image }));
+    } finally {
+        video.removeAttribute('src');
+        video.load();
+        URL.revokeObjectURL(url);
+    }
+};
+
+export const createCanvasSlideDetector = (): SlideDetector => ({
+    detect: (file, options) => file.type.startsWith('video/') ? detectSlides(file, options) : Promise.resolve([]),
+});
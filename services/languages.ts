@@ -0,0 +1,28 @@
+import { LectureLanguage } from '../types';
+
+// Languages are passed to the models by their English name, which they understand better than codes.
+// The list only drives the pickers; a detected language outside it is still used as returned.
+
+export const AUTO_DETECT = 'auto';
+export const SAME_AS_SPOKEN = 'original';
+export const DEFAULT_TARGET_LANGUAGE = 'English';
+
+export const LANGUAGES = [
+    'Arabic', 'Bengali', 'Chinese', 'Czech', 'Dutch', 'English', 'French', 'German', 'Greek', 'Hebrew',
+    'Hindi', 'Indonesian', 'Italian', 'Japanese', 'Korean', 'Malay', 'Persian', 'Polish', 'Portuguese',
+    'Romanian', 'Russian', 'Spanish', 'Swahili', 'Swedish', 'Tamil', 'Thai', 'Turkish', 'Ukrainian',
+    'Urdu', 'Vietnamese',
+];
+
+export interface LanguageOptions {
+    source: string; // a language name, or AUTO_DETECT
+    target: string; // a language name, or SAME_AS_SPOKEN
+}
+
+export const DEFAULT_LANGUAGE_OPTIONS: LanguageOptions = { source: AUTO_DETECT, target: DEFAULT_TARGET_LANGUAGE };
+
+export const isSameLanguage = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/** "Spanish → English", or just "Spanish" when nothing was translated. */
+export const describeLanguage = ({ source, target }: LectureLanguage) =>
+    isSameLanguage(source, target) ? source : `${source} → ${target}`;
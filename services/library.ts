@@ -0,0 +1,158 @@
+import { HistoryItem } from '../types';
+import { CURRENT_SCHEMA_VERSION, ImportedLecture, importHistoryItems, loadMedia, migrateHistoryRecord, StorageError } from './storage';
+import { isStudyMaterials } from './validation';
+import { createZipBlob, readZip } from './zip';
+
+// Whole-library backups. An archive is a ZIP holding a `library.json` manifest, with every history record as
+// it is stored (including its schemaVersion), and the recordings under `media/`. Importing runs each record
+// through the same migrations as the live history, so backups made by older versions keep working.
+
+const LIBRARY_FORMAT = 'class-whisper/library';
+const LIBRARY_VERSION = 1;
+const MANIFEST_NAME = 'library.json';
+
+interface LibraryManifest {
+    format: typeof LIBRARY_FORMAT;
+    version: number;
+    exportedAt: string;
+    items: unknown[];
+    media: { id: number, path: string, name: string, type: string }[];
+}
+
+export interface LibraryArchive {
+    exportedAt: string;
+    lectures: (ImportedLecture & { contentHash: string })[];
+    skipped: number; // records that could not be read
+}
+
+export type LibraryImportMode = 'merge' | 'replace';
+
+
+// --- HASHING ---
+
+// Key order must not change the hash, so objects are serialized with sorted keys.
+const canonicalJson = (value: unknown): string => {
+    if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value).sort()
+            .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+            .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+            .join(',')}}`;
+    }
+    return JSON.stringify(value);
+};
+
+/** Identifies a lecture by its generated content, so the same lecture is recognized whatever id it was saved under. */
+const contentHash = async (item: HistoryItem) => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonicalJson(item.materials)));
+    return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+
+// --- EXPORT ---
+
+/** Packs every lecture and its stored recording into a single archive. */
+export const exportLibrary = async (items: HistoryItem[]): Promise<Blob> => {
+    const mediaEntries: { id: number, path: string, file: File }[] = [];
+    for (const item of items) {
+        const file = await loadMedia(item.id);
+        if (file && file.size > 0) mediaEntries.push({ id: item.id, path: `media/${item.id}`, file });
+    }
+
+    const manifest: LibraryManifest = {
+        format: LIBRARY_FORMAT,
+        version: LIBRARY_VERSION,
+        exportedAt: new Date().toISOString(),
+        items: items.map(item => ({ ...item, schemaVersion: CURRENT_SCHEMA_VERSION })),
+        media: mediaEntries.map(({ id, path, file }) => ({ id, path, name: file.name, type: file.type })),
+    };
+
+    return createZipBlob([
+        { name: MANIFEST_NAME, data: JSON.stringify(manifest) },
+        ...mediaEntries.map(({ path, file }) => ({ name: path, data: file })),
+    ]);
+};
+
+
+// --- IMPORT ---
+
+/** Reads and validates a library archive. Throws a `corrupt` StorageError if the file isn't a library backup. */
+export const readLibraryArchive = async (file: Blob): Promise<LibraryArchive> => {
+    let manifest: LibraryManifest;
+    let entries: Map<string, Blob>;
+    try {
+        entries = await readZip(file);
+        const manifestEntry = entries.get(MANIFEST_NAME);
+        if (!manifestEntry) throw new Error(`The archive has no ${MANIFEST_NAME}.`);
+        manifest = JSON.parse(await manifestEntry.text());
+    } catch (err) {
+        throw new StorageError('corrupt', 'This file is not a Class Whisper library backup.', { cause: err });
+    }
+    if (manifest?.format !== LIBRARY_FORMAT || !Array.isArray(manifest.items)) {
+        throw new StorageError('corrupt', 'This file is not a Class Whisper library backup.');
+    }
+    if (typeof manifest.version !== 'number' || manifest.version > LIBRARY_VERSION) {
+        throw new StorageError('corrupt', 'This library backup was made by a newer version of Class Whisper.');
+    }
+
+    const mediaById = new Map((Array.isArray(manifest.media) ? manifest.media : []).map(media => [media.id, media]));
+    const lectures: LibraryArchive['lectures'] = [];
+    let skipped = 0;
+    for (const record of manifest.items) {
+        let item: HistoryItem;
+        try {
+            item = migrateHistoryRecord(record);
+            if (!isStudyMaterials(item.materials)) throw new StorageError('corrupt', `"${item.filename}" is missing parts of its study guide.`);
+        } catch (err) {
+            console.error("Skipping unreadable lecture in library backup", record, err);
+            skipped++;
+            continue;
+        }
+        const media = mediaById.get(item.id);
+        const mediaBlob = media && entries.get(media.path);
+        lectures.push({
+            item,
+            media: mediaBlob ? new File([mediaBlob], media.name, { type: media.type }) : undefined,
+            contentHash: await contentHash(item),
+        });
+    }
+
+    return { exportedAt: typeof manifest.exportedAt === 'string' ? manifest.exportedAt : '', lectures, skipped };
+};
+
+/** Which lectures in the archive are already in the library (or earlier in the archive), by content hash. */
+export const findDuplicateLectures = async (archive: LibraryArchive, existing: HistoryItem[]): Promise<Set<number>> => {
+    const seen = new Set(await Promise.all(existing.map(contentHash)));
+    const duplicates = new Set<number>();
+    archive.lectures.forEach(({ contentHash: hash }, index) => {
+        if (seen.has(hash)) duplicates.add(index);
+        seen.add(hash);
+    });
+    return duplicates;
+};
+
+/**
+ * Applies an import. `merge` adds only lectures that aren't already in the library, giving them a new id if
+ * theirs is taken; `replace` makes the library exactly the archive's contents. Returns how many were written.
+ */
+export const applyLibraryImport = async (archive: LibraryArchive, existing: HistoryItem[], mode: LibraryImportMode) => {
+    if (mode === 'replace') {
+        const seen = new Set<string>();
+        const lectures = archive.lectures.filter(({ contentHash: hash }) => !seen.has(hash) && seen.add(hash));
+        await importHistoryItems(lectures, { replace: true });
+        return lectures.length;
+    }
+
+    const duplicates = await findDuplicateLectures(archive, existing);
+    const usedIds = new Set(existing.map(item => item.id));
+    let nextId = Math.max(Date.now(), ...usedIds) + 1;
+    const lectures = archive.lectures
+        .filter((_, index) => !duplicates.has(index))
+        .map(({ item, media }) => {
+            const id = usedIds.has(item.id) ? nextId++ : item.id;
+            usedIds.add(id);
+            return { item: { ...item, id }, media };
+        });
+    await importHistoryItems(lectures, { replace: false });
+    return lectures.length;
+};
@@ -0,0 +1,261 @@
+import jsPDF from 'jspdf';
+import { StudyMaterials } from '../types';
+import { DocumentBlock, DocumentSection, SECTION_TITLES, sectionBlocks } from './documentBlocks';
+
+// Renders study materials as a real, text-based PDF using jsPDF's text API, so the text can be selected
+// and searched, lines are never cut in half at page breaks, and memory use stays flat for long transcripts.
+// The first page(s) hold the title and a linked table of contents; every page gets a header and page number.
+
+interface TocEntry {
+    title: string;
+    level: 1 | 2;
+    page: number; // page number before the table of contents is inserted
+}
+
+// --- LAYOUT ---
+const PAGE_WIDTH = 210; // A4, mm
+const PAGE_HEIGHT = 297;
+const MARGIN_X = 20;
+const MARGIN_TOP = 22;
+const MARGIN_BOTTOM = 20;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN_X * 2;
+const PT_TO_MM = 0.3528;
+const LINE_SPACING = 1.4;
+const TOC_ENTRIES_PER_PAGE = 34;
+
+const FONT_SIZES = { title: 22, 1: 16, 2: 13, 3: 11.5, body: 10.5, small: 9 } as const;
+const ACCENT: [number, number, number] = [123, 31, 162];
+const TEXT: [number, number, number] = [33, 33, 33];
+const MUTED: [number, number, number] = [110, 110, 110];
+
+
+// --- TEXT ---
+
+// The standard PDF fonts only cover the Windows-1252 character set, so a few common symbols are mapped to
+// plain equivalents and anything else outside it is replaced rather than rendered as garbage.
+const WINDOWS_1252_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+const toPdfText = (text: string) => text
+    .replace(/[→⇒]/g, '->')
+    .replace(/[←⇐]/g, '<-')
+    .replace(/≤/g, '<=')
+    .replace(/≥/g, '>=')
+    .replace(/≠/g, '!=')
+    .replace(/≈/g, '~')
+    .replace(/−/g, '-')
+    .replace(/[^\x09\x0A\x0D\x20-\x7E\xA0-\xFF]/g, char => WINDOWS_1252_EXTRAS.includes(char) ? char : '?');
+
+
+// --- RENDERER ---
+
+const lineHeight = (fontSize: number) => fontSize * PT_TO_MM * LINE_SPACING;
+
+const createRenderer = (pdf: jsPDF) => {
+    let y = MARGIN_TOP;
+    const toc: TocEntry[] = [];
+
+    const newPage = () => {
+        pdf.addPage();
+        y = MARGIN_TOP;
+    };
+
+    const ensureSpace = (height: number) => {
+        if (y + height > PAGE_HEIGHT - MARGIN_BOTTOM) newPage();
+    };
+
+    const setFont = (size: number, style: 'normal' | 'bold' | 'italic' = 'normal', family = 'helvetica') => {
+        pdf.setFont(family, style);
+        pdf.setFontSize(size);
+    };
+
+    /** Writes wrapped text line by line, breaking pages between lines only. */
+    const writeLines = (lines: string[], x: number, size: number) => {
+        const height = lineHeight(size);
+        for (const line of lines) {
+            ensureSpace(height);
+            pdf.text(line, x, y, { baseline: 'top' });
+            y += height;
+        }
+    };
+
+    const wrap = (text: string, width: number): string[] => pdf.splitTextToSize(toPdfText(text), width);
+
+    const renderBlock = (block: DocumentBlock) => {
+        pdf.setTextColor(...TEXT);
+        switch (block.type) {
+            case 'heading': {
+                const size = FONT_SIZES[block.level];
+                setFont(size, 'bold');
+                const lines = wrap(block.text, CONTENT_WIDTH);
+                // Keep a heading on the same page as at least two lines of what follows it.
+                ensureSpace(lines.length * lineHeight(size) + 4 + lineHeight(FONT_SIZES.body) * 2);
+                y += block.level === 1 ? 2 : 3;
+                if (block.level !== 3) {
+                    toc.push({ title: block.text, level: block.level, page: pdf.getNumberOfPages() });
+                }
+                pdf.setTextColor(...(block.level === 1 ? ACCENT : TEXT));
+                writeLines(lines, MARGIN_X, size);
+                if (block.level === 1) {
+                    pdf.setDrawColor(...ACCENT);
+                    pdf.setLineWidth(0.6);
+                    pdf.line(MARGIN_X, y, PAGE_WIDTH - MARGIN_X, y);
+                    y += 3;
+                }
+                y += 1.5;
+                break;
+            }
+            case 'paragraph':
+                setFont(FONT_SIZES.body);
+                writeLines(wrap(block.text, CONTENT_WIDTH), MARGIN_X, FONT_SIZES.body);
+                y += 2;
+                break;
+            case 'listItem': {
+                setFont(FONT_SIZES.body);
+                const indent = 6;
+                const lines = wrap(block.text, CONTENT_WIDTH - indent);
+                ensureSpace(lineHeight(FONT_SIZES.body));
+                pdf.text(toPdfText(block.marker), MARGIN_X + 1, y, { baseline: 'top' });
+                writeLines(lines, MARGIN_X + indent, FONT_SIZES.body);
+                y += 1;
+                break;
+            }
+            case 'code': {
+                setFont(FONT_SIZES.body - 0.5, 'normal', 'courier');
+                const lines = wrap(block.text, CONTENT_WIDTH - 8);
+                const height = lines.length * lineHeight(FONT_SIZES.body - 0.5) + 4;
+                ensureSpace(Math.min(height, PAGE_HEIGHT - MARGIN_TOP - MARGIN_BOTTOM));
+                pdf.setFillColor(243, 238, 250);
+                pdf.rect(MARGIN_X, y, CONTENT_WIDTH, height, 'F');
+                y += 2;
+                writeLines(lines, MARGIN_X + 4, FONT_SIZES.body - 0.5);
+                y += 4;
+                break;
+            }
+            case 'table': {
+                const size = FONT_SIZES.small;
+                const columns = Math.max(...block.rows.map(row => row.length));
+                const columnWidth = CONTENT_WIDTH / columns;
+                pdf.setDrawColor(201, 190, 218);
+                pdf.setLineWidth(0.2);
+                pdf.line(MARGIN_X, y, PAGE_WIDTH - MARGIN_X, y);
+                block.rows.forEach((row, index) => {
+                    setFont(size, index === 0 ? 'bold' : 'normal');
+                    const cells = Array.from({ length: columns }, (_, column) => wrap(row[column] ?? '', columnWidth - 3));
+                    const height = Math.max(...cells.map(lines => lines.length)) * lineHeight(size) + 2;
+                    if (y + height > PAGE_HEIGHT - MARGIN_BOTTOM) {
+                        newPage();
+                        pdf.line(MARGIN_X, y, PAGE_WIDTH - MARGIN_X, y);
+                    }
+                    if (index === 0) {
+                        pdf.setFillColor(243, 238, 250);
+                        pdf.rect(MARGIN_X, y, CONTENT_WIDTH, height, 'F');
+                    }
+                    cells.forEach((lines, column) => {
+                        pdf.text(lines, MARGIN_X + column * columnWidth + 1.5, y + 1, { baseline: 'top', lineHeightFactor: LINE_SPACING });
+                    });
+                    y += height;
+                    pdf.line(MARGIN_X, y, PAGE_WIDTH - MARGIN_X, y);
+                });
+                y += 3;
+                break;
+            }
+            case 'definition':
+            case 'speaker': {
+                const label = block.type === 'definition' ? `${block.term}:` : block.label;
+                setFont(block.type === 'definition' ? FONT_SIZES.body : FONT_SIZES.small, 'bold');
+                pdf.setTextColor(...(block.type === 'definition' ? TEXT : ACCENT));
+                writeLines(wrap(label, CONTENT_WIDTH), MARGIN_X, block.type === 'definition' ? FONT_SIZES.body : FONT_SIZES.small);
+                setFont(FONT_SIZES.body);
+                pdf.setTextColor(...TEXT);
+                writeLines(wrap(block.text, CONTENT_WIDTH - 4), MARGIN_X + 4, FONT_SIZES.body);
+                y += 2.5;
+                break;
+            }
+        }
+    };
+
+    const startSection = (title: string) => {
+        if (y > MARGIN_TOP) newPage();
+        renderBlock({ type: 'heading', level: 1, text: title });
+    };
+
+    return { renderBlock, startSection, toc };
+};
+
+/** Inserts the title page and table of contents in front of the content, with clickable entries. */
+const addTitleAndContents = (pdf: jsPDF, title: string, toc: TocEntry[]) => {
+    const tocPages = Math.max(1, Math.ceil(toc.length / TOC_ENTRIES_PER_PAGE));
+    for (let i = 0; i < tocPages; i++) pdf.insertPage(1);
+
+    toc.forEach((entry, index) => {
+        const tocPage = Math.floor(index / TOC_ENTRIES_PER_PAGE) + 1;
+        pdf.setPage(tocPage);
+        let y = MARGIN_TOP;
+        if (index % TOC_ENTRIES_PER_PAGE === 0) {
+            pdf.setFont('helvetica', 'bold');
+            if (tocPage === 1) {
+                pdf.setFontSize(FONT_SIZES.title);
+                pdf.setTextColor(...ACCENT);
+                const titleLines: string[] = pdf.splitTextToSize(toPdfText(title), CONTENT_WIDTH);
+                pdf.text(titleLines, MARGIN_X, MARGIN_TOP + 10, { baseline: 'top' });
+                pdf.setFontSize(FONT_SIZES.small);
+                pdf.setFont('helvetica', 'normal');
+                pdf.setTextColor(...MUTED);
+                pdf.text(`Generated by Class Whisper on ${new Date().toLocaleDateString()}`, MARGIN_X, MARGIN_TOP + 12 + titleLines.length * lineHeight(FONT_SIZES.title), { baseline: 'top' });
+            }
+            pdf.setFont('helvetica', 'bold');
+            pdf.setFontSize(FONT_SIZES[1]);
+            pdf.setTextColor(...TEXT);
+            pdf.text('Contents', MARGIN_X, tocPage === 1 ? 75 : MARGIN_TOP, { baseline: 'top' });
+        }
+        const firstRowY = (tocPage === 1 ? 75 : MARGIN_TOP) + 12;
+        y = firstRowY + (index % TOC_ENTRIES_PER_PAGE) * lineHeight(FONT_SIZES.body) * 1.15;
+
+        const page = entry.page + tocPages;
+        const indent = entry.level === 1 ? 0 : 6;
+        pdf.setFont('helvetica', entry.level === 1 ? 'bold' : 'normal');
+        pdf.setFontSize(FONT_SIZES.body);
+        pdf.setTextColor(...TEXT);
+        const label: string = pdf.splitTextToSize(toPdfText(entry.title), CONTENT_WIDTH - indent - 20)[0];
+        pdf.textWithLink(label, MARGIN_X + indent, y, { pageNumber: page, baseline: 'top' });
+        pdf.text(String(page), PAGE_WIDTH - MARGIN_X, y, { align: 'right', baseline: 'top' });
+        pdf.link(PAGE_WIDTH - MARGIN_X - 12, y, 12, lineHeight(FONT_SIZES.body), { pageNumber: page });
+    });
+
+    // Bookmarks in the viewer's sidebar mirror the table of contents.
+    let parent: ReturnType<jsPDF['outline']['add']> | null = null;
+    toc.forEach(entry => {
+        const item = pdf.outline.add(entry.level === 1 ? null : parent, entry.title, { pageNumber: entry.page + tocPages });
+        if (entry.level === 1) parent = item;
+    });
+};
+
+const addPageDecorations = (pdf: jsPDF, title: string) => {
+    const pageCount = pdf.getNumberOfPages();
+    for (let page = 1; page <= pageCount; page++) {
+        pdf.setPage(page);
+        pdf.setFont('helvetica', 'normal');
+        pdf.setFontSize(FONT_SIZES.small);
+        pdf.setTextColor(...MUTED);
+        if (page > 1) {
+            const header: string = pdf.splitTextToSize(toPdfText(title), CONTENT_WIDTH)[0];
+            pdf.text(header, MARGIN_X, 12, { baseline: 'top' });
+        }
+        pdf.text(`Page ${page} of ${pageCount}`, PAGE_WIDTH / 2, PAGE_HEIGHT - 10, { align: 'center' });
+    }
+};
+
+/** Builds a PDF containing the given sections, in order. */
+export const createStudyPdf = (materials: StudyMaterials, { title, sections }: { title: string, sections: DocumentSection[] }) => {
+    const pdf = new jsPDF('p', 'mm', 'a4');
+    pdf.setProperties({ title, creator: 'Class Whisper' });
+    const renderer = createRenderer(pdf);
+
+    sections.forEach(section => {
+        renderer.startSection(SECTION_TITLES[section]);
+        sectionBlocks(materials, section).forEach(renderer.renderBlock);
+    });
+
+    addTitleAndContents(pdf, title, renderer.toc);
+    addPageDecorations(pdf, title);
+    return pdf;
+};
@@ -0,0 +1,169 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { generateStudyMaterials, PipelineCheckpoint, PipelineOptions, validateStudyGuide } from './pipeline';
+import { createFakeLLMProvider, createFakeTranscriptionProvider } from './fakeProvider';
+import { PipelineError } from './errors';
+import { DEFAULT_TEMPLATE } from './templates';
+import { TranscriptSegment } from '../types';
+
+const SEGMENTS: TranscriptSegment[] = [
+    { start: 0, end: 4, speaker: 'Lecturer', text: "Today we look at Newton's second law." },
+    { start: 4, end: 9, speaker: 'Lecturer', text: 'Force equals mass times acceleration.' },
+];
+
+const STUDY_GUIDE = {
+    summary: "The lecture introduces Newton's second law.",
+    keySections: ["Newton's second law"],
+    formulas: ['F = ma'],
+    glossary: [{ term: 'Force', definition: 'A push or a pull.' }],
+    examQuestions: ["State Newton's second law."],
+    quiz: [{ type: 'short', question: 'What is F?', rubric: 'Force' }],
+};
+
+const recording = new File(['audio'], 'lecture.mp3', { type: 'audio/mpeg' });
+
+const run = (options: Partial<PipelineOptions>) => {
+    const checkpoints: PipelineCheckpoint[] = [];
+    const result = generateStudyMaterials({
+        file: recording,
+        duration: 9,
+        transcriber: createFakeTranscriptionProvider(SEGMENTS),
+        llm: createFakeLLMProvider({ jsonReply: JSON.stringify(STUDY_GUIDE), textReply: '# Notes\n\n- F = ma' }),
+        template: DEFAULT_TEMPLATE,
+        language: { source: 'English', target: 'English' },
+        onCheckpoint: checkpoint => checkpoints.push(checkpoint),
+        ...options,
+    });
+    return { result, checkpoints };
+};
+
+describe('generateStudyMaterials', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('turns a transcript into study materials, checkpointing every step', async () => {
+        const { result, checkpoints } = run({});
+        const { materials, language } = await result;
+
+        expect(materials.transcriptSegments).toEqual(SEGMENTS);
+        expect(materials.summary).toBe(STUDY_GUIDE.summary);
+        expect(materials.glossary).toEqual(STUDY_GUIDE.glossary);
+        expect(materials.quiz).toEqual([{ type: 'short', question: 'What is F?', rubric: 'Force' }]);
+        expect(materials.detailedNotes).toBe('# Notes\n\n- F = ma');
+        expect(language).toEqual({ source: 'English', target: 'English', detected: false });
+        expect(checkpoints.map(checkpoint => checkpoint.completedSteps.at(-1)))
+            .toEqual(['transcription', 'translation', 'slides', 'studyGuide', 'detailedNotes']);
+    });
+
+    it('skips the steps a checkpoint has already completed', async () => {
+        const first = await run({}).result;
+        const transcriber = createFakeTranscriptionProvider(SEGMENTS);
+        const llm = createFakeLLMProvider({ jsonReply: JSON.stringify(STUDY_GUIDE), textReply: 'Resumed notes' });
+
+        const { materials } = await run({
+            transcriber,
+            llm,
+            resumeFrom: { materials: { ...first.materials, detailedNotes: undefined }, language: first.language, completedSteps: ['transcription', 'translation', 'slides', 'studyGuide'] },
+        }).result;
+
+        expect(transcriber.calls).toBe(0);
+        expect(llm.requests).toHaveLength(1);
+        expect(materials.detailedNotes).toBe('Resumed notes');
+    });
+
+    it.each([
+        ['no segments', []],
+        ['only silence', [{ start: 0, end: 30, text: '  ' }]],
+    ])('rejects a transcript with %s as bad media before asking the model for anything', async (_, segments: TranscriptSegment[]) => {
+        const llm = createFakeLLMProvider({ jsonReply: JSON.stringify(STUDY_GUIDE), textReply: 'notes' });
+        const { result, checkpoints } = run({ transcriber: createFakeTranscriptionProvider(segments), llm });
+
+        await expect(result).rejects.toMatchObject({ name: 'PipelineError', kind: 'badMedia' });
+        expect(checkpoints).toHaveLength(0);
+        expect(llm.requests).toHaveLength(0);
+    });
+
+    it('carries on without slides when they cannot be read', async () => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const slideDetector = { detect: async () => [{ time: 5, image: 'data:image/jpeg;base64,AAAA' }] };
+        // The study guide reply is not a list of slide contents, so reading the slides fails.
+        const { result, checkpoints } = run({ file: new File(['video'], 'lecture.mp4', { type: 'video/mp4' }), slideDetector });
+        const outcome = result.then(({ materials }) => materials);
+
+        await vi.runAllTimersAsync();
+        const materials = await outcome;
+        expect(materials.slides).toBeUndefined();
+        expect(materials.summary).toBe(STUDY_GUIDE.summary);
+        expect(checkpoints.map(checkpoint => checkpoint.completedSteps.at(-1)))
+            .toEqual(['transcription', 'translation', 'slides', 'studyGuide', 'detailedNotes']);
+    });
+
+    it('retries a malformed study guide and then fails with an invalid response', async () => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const llm = createFakeLLMProvider({ jsonReply: '{"summary": "cut off', textReply: 'notes' });
+        const { result, checkpoints } = run({ llm });
+        const outcome = expect(result).rejects.toMatchObject({ kind: 'invalidResponse' });
+
+        await vi.runAllTimersAsync();
+        await outcome;
+        expect(llm.requests).toHaveLength(4); // the first attempt and three retries
+        expect(checkpoints.at(-1)?.completedSteps).toEqual(['transcription', 'translation', 'slides']);
+    });
+
+    it('reports a network failure as a network error once the retries run out', async () => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const llm = createFakeLLMProvider({ jsonReply: new TypeError('Failed to fetch'), textReply: 'notes' });
+        const { result, checkpoints } = run({ llm });
+        const outcome = result.catch((err: unknown) => err);
+
+        await vi.runAllTimersAsync();
+        const error = await outcome;
+        expect(error).toBeInstanceOf(PipelineError);
+        expect((error as PipelineError).kind).toBe('network');
+        expect(checkpoints.at(-1)?.completedSteps).toEqual(['transcription', 'translation', 'slides']);
+    });
+
+    it('fails straight away on a TypeError that is not a network failure', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const llm = createFakeLLMProvider({ jsonReply: new TypeError("Cannot read properties of undefined (reading 'text')"), textReply: 'notes' });
+
+        await expect(run({ llm }).result).rejects.toMatchObject({ kind: 'unknown' });
+        expect(llm.requests).toHaveLength(1);
+    });
+});
+
+describe('validateStudyGuide', () => {
+    it('treats left-out lists as empty', () => {
+        const { examQuestions: _, quiz: __, ...rest } = STUDY_GUIDE;
+        const guide = validateStudyGuide(rest);
+        expect(guide.examQuestions).toEqual([]);
+        expect(guide).not.toHaveProperty('quiz');
+    });
+
+    it('drops quiz questions whose text fields are not strings', () => {
+        const guide = validateStudyGuide({
+            ...STUDY_GUIDE,
+            quiz: [
+                { type: 'short', question: 42, rubric: 'Force' },
+                { type: 'short', question: 'What is m?', rubric: ['Mass'] },
+                { type: 'mcq', question: 'Which law?', options: ['First', 'Second'], correctIndex: 1, explanation: null },
+            ],
+        });
+        expect(guide.quiz).toEqual([{ type: 'mcq', question: 'Which law?', options: ['First', 'Second'], correctIndex: 1, explanation: '' }]);
+    });
+
+    it.each([
+        ['not an object', ['a list']],
+        ['without a summary', { ...STUDY_GUIDE, summary: ' ' }],
+        ['with a field of the wrong type', { ...STUDY_GUIDE, keySections: 'Newton' }],
+        ['with a malformed glossary', { ...STUDY_GUIDE, glossary: [{ term: 'Force' }] }],
+    ])('rejects a study guide %s', (_, value) => {
+        expect(() => validateStudyGuide(value)).toThrow(expect.objectContaining({ kind: 'invalidResponse' }));
+    });
+});
@@ -0,0 +1,630 @@
+import { EditableSection, GenerationStep, GlossaryItem, LectureLanguage, QuizAnswerResult, ReferenceDocument, ShortAnswerQuestion, Slide, SlideFrame, StudyGuideTemplate, StudyMaterials, TemplateSection, TranscriptSegment, VocabularyEntry } from '../types';
+import { AUTO_DETECT, DEFAULT_LANGUAGE_OPTIONS, DEFAULT_TARGET_LANGUAGE, isSameLanguage, LanguageOptions, SAME_AS_SPOKEN } from './languages';
+import { buildQuizInstructions, buildShortAnswerGradingPrompt, normalizeQuiz, quizSchema, shortAnswerGradesSchema } from './quiz';
+import { SECTION_LABELS, sectionToText } from './revisions';
+import { PipelineError, withRetry } from './errors';
+import { isGlossary, isRecord, isStringArray } from './validation';
+import { applyVocabulary } from './corrections';
+
+// --- PROVIDER INTERFACES ---
+// The pipeline only talks to these interfaces, so any speech-to-text backend or language model can be plugged in.
+
+/** A provider-neutral subset of JSON Schema, used to request structured output. */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  propertyOrdering?: string[];
+}
+
+export interface TranscriptionProgress {
+  stage: 'uploading' | 'processing' | 'transcribing';
+  completedChunks: number;
+  totalChunks: number;
+}
+
+export interface TranscribeOptions {
+  duration: number; // seconds; 0 when unknown
+  language?: string; // the spoken language, when known; otherwise the recording is transcribed in whatever language is heard
+  vocabulary?: string[]; // terms, names and notation from the course material, so they are spelled right
+  signal?: AbortSignal;
+  onProgress?: (progress: TranscriptionProgress) => void;
+}
+
+export interface TranscriptionProvider {
+  transcribe(file: File, options: TranscribeOptions): Promise<TranscriptSegment[]>;
+}
+
+export interface SlideDetectionOptions {
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+/** Captures the distinct slides and whiteboard states of a video lecture. Returns none for audio. */
+export interface SlideDetector {
+  detect(file: File, options: SlideDetectionOptions): Promise<SlideFrame[]>;
+}
+
+export interface GenerateRequest {
+  prompt: string;
+  attachments?: { mimeType: string, data: string }[]; // base64-encoded images or PDFs, sent before the prompt
+  // When set, the provider must return a JSON document matching this schema.
+  responseSchema?: JsonSchema;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  generate(request: GenerateRequest): Promise<string>;
+}
+
+export type PipelineStep = GenerationStep;
+
+/** Everything finished so far in a run. Passing it back as `resumeFrom` skips the completed steps. */
+export interface PipelineCheckpoint {
+  materials: Partial<StudyMaterials>;
+  language?: LectureLanguage; // known once transcription is done
+  completedSteps: PipelineStep[];
+}
+
+export interface PipelineOptions {
+  file?: File; // only needed while the lecture still has to be transcribed
+  duration: number;
+  transcriber: TranscriptionProvider;
+  llm: LLMProvider;
+  slideDetector?: SlideDetector; // without one, video lectures are only listened to
+  template: StudyGuideTemplate; // which sections to generate, and how
+  references?: ReferenceDocument[]; // slides or readings to ground the transcript and study materials in
+  vocabulary?: VocabularyEntry[]; // the course's spellings, and the mistakes to correct in the transcript
+  // Already transcribed, e.g. live while the lecture was recorded. Transcription is then skipped.
+  transcriptSegments?: TranscriptSegment[];
+  language?: LanguageOptions; // defaults to detecting the spoken language and writing in English
+  resumeFrom?: PipelineCheckpoint;
+  signal?: AbortSignal;
+  onStep?: (step: PipelineStep) => void;
+  onCheckpoint?: (checkpoint: PipelineCheckpoint) => void; // after every completed step
+  onTranscriptionProgress?: (progress: TranscriptionProgress) => void;
+  onSlideProgress?: (fraction: number) => void;
+}
+
+export interface GeneratedLecture {
+  materials: StudyMaterials;
+  language: LectureLanguage;
+  template: StudyGuideTemplate;
+  references?: ReferenceDocument[];
+}
+
+type StudyGuide = Pick<StudyMaterials, 'summary' | 'keySections' | 'formulas' | 'glossary' | 'examQuestions' | 'quiz'>;
+
+// Segments are translated in batches so each reply stays well within the model's output limit.
+const TRANSLATION_BATCH_SIZE = 60;
+const LANGUAGE_SAMPLE_LENGTH = 3000;
+// Slides are read a few at a time, which keeps each request small and each reply easy to line up.
+const SLIDE_BATCH_SIZE = 6;
+const MAX_VOCABULARY = 150;
+
+
+// --- PROMPTS ---
+
+const slideContentSchema: JsonSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: { text: { type: 'string' }, formulas: { type: 'array', items: { type: 'string' } }, diagrams: { type: 'string' } },
+        propertyOrdering: ["text", "formulas", "diagrams"],
+    },
+};
+
+export const studyGuideSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        summary: { type: 'string' },
+        keySections: { type: 'array', items: { type: 'string' } },
+        formulas: { type: 'array', items: { type: 'string' } },
+        glossary: {
+            type: 'array',
+            items: {
+                type: 'object', properties: { term: { type: 'string' }, definition: { type: 'string' }},
+                propertyOrdering: ["term", "definition"],
+            }
+        },
+        examQuestions: { type: 'array', items: { type: 'string' } },
+        quiz: quizSchema,
+    },
+    propertyOrdering: ["summary", "keySections", "formulas", "glossary", "examQuestions", "quiz"],
+};
+
+const DETAILED_NOTES_GUIDELINES = 'The notes should be well-structured, easy to read, and capture the essence of the lecture. Do not just reformat the transcript. Instead, synthesize the information, organize it logically under clear headings, and use bullet points to break down complex topics. Focus on key concepts, definitions, examples, and conclusions. The final output should be formatted in clean markdown. Use numbered lists, tables and code blocks where they help, and write all mathematical expressions in LaTeX, using $...$ for inline math and $$...$$ for equations on their own line.';
+
+// Template settings that only add to the prompt when they differ from the standard ones.
+const NOTES_STYLE_INSTRUCTIONS: Record<StudyGuideTemplate['notesStyle'], string> = {
+    standard: '',
+    cornell: ' Lay the notes out in the Cornell style: for each topic, a markdown table with a "Cues" column of key questions and terms and a "Notes" column with the matching notes, followed by a one or two sentence summary of the topic.',
+    outline: ' Write the notes as a hierarchical outline of nested bullet points, using short phrases rather than full paragraphs.',
+    qa: ' Write the notes as a series of questions a student might ask about the lecture, each heading followed by a clear answer drawn from the lecture.',
+};
+
+const NOTES_LENGTH_INSTRUCTIONS: Record<StudyGuideTemplate['notesLength'], string> = {
+    brief: ' Keep the notes brief, about one page, covering only the most important points.',
+    standard: '',
+    comprehensive: ' Make the notes comprehensive, covering every topic, example and detail from the lecture.',
+};
+
+const DIFFICULTY_INSTRUCTIONS: Record<StudyGuideTemplate['difficulty'], string> = {
+    introductory: ' Pitch the questions at an introductory level, testing recall and understanding of the main ideas.',
+    standard: '',
+    challenging: ' Make the questions challenging, testing application, analysis and problem-solving rather than recall.',
+};
+
+const notesGuidelines = (template: StudyGuideTemplate) =>
+    `${DETAILED_NOTES_GUIDELINES}${NOTES_STYLE_INSTRUCTIONS[template.notesStyle]}${NOTES_LENGTH_INSTRUCTIONS[template.notesLength]}`;
+
+// What each part of the study guide should contain; shared by the full prompt and single-section regeneration.
+const sectionInstructions = (template: StudyGuideTemplate): Record<EditableSection, string> => ({
+    summary: 'A concise summary of the entire lecture.',
+    keySections: 'A bulleted list of the main topics discussed.',
+    formulas: 'A list of all formulas mentioned, each written as a LaTeX math expression without surrounding $ delimiters (for example "E_k = \\frac{1}{2}mv^2"). If none, return an empty array.',
+    glossary: 'A list of key terms and their definitions. Each item should be an object with "term" and "definition" properties. If none, return an empty array.',
+    examQuestions: `A list of ${template.examQuestionCount} potential exam questions based on the content.${DIFFICULTY_INSTRUCTIONS[template.difficulty]}`,
+    detailedNotes: `High-quality, detailed study notes. ${notesGuidelines(template)}`,
+});
+
+const quizInstructions = (template: StudyGuideTemplate) =>
+    `${buildQuizInstructions(template.quizQuestionCount)}${DIFFICULTY_INSTRUCTIONS[template.difficulty]}`;
+
+const languageInstruction = (language?: string) => language ? ` Write everything in ${language}.` : '';
+
+/** What the slides show, numbered as they're referenced in the notes. */
+export const slidesToText = (slides: Slide[]) => slides.map((slide, index) => [
+    `[Slide ${index + 1}, at ${formatSeconds(slide.time)}]`,
+    slide.text,
+    slide.formulas.length > 0 ? `Formulas: ${slide.formulas.join('; ')}` : '',
+    slide.diagrams ? `Diagrams: ${slide.diagrams}` : '',
+].filter(Boolean).join('\n')).join('\n\n');
+
+const slidesContext = (slides: Slide[] | undefined, usage: string) => slides?.length
+    ? `\n\nThe lecture video also showed these slides and whiteboard contents, which often hold details that were never said aloud. ${usage}\n---\n${slidesToText(slides)}\n---`
+    : '';
+
+/** The attached PDFs, to send along with a prompt that uses `referencesContext`. */
+const referenceAttachments = (references: ReferenceDocument[] = []) =>
+    references.filter(reference => reference.type === 'pdf').map(reference => ({ mimeType: 'application/pdf', data: reference.content }));
+
+const referencesText = (references: ReferenceDocument[]) => references.map(reference => reference.type === 'pdf'
+    ? `[${reference.name}]\n(attached as a PDF)`
+    : `[${reference.name}]\n${reference.content}`).join('\n\n');
+
+const referencesContext = (references: ReferenceDocument[] | undefined, usage: string) => references?.length
+    ? `\n\nThe student attached the slides and readings for this lecture as reference material. The transcript is what was actually said: use the references to spell terms, names and notation correctly and to complete what the lecturer only pointed at, but don't add topics the lecture didn't cover. If the lecturer corrected or disagreed with a reference, go with the lecturer. ${usage}\n---\n${referencesText(references)}\n---`
+    : '';
+
+const customInstructions = (template: StudyGuideTemplate) =>
+    template.customInstructions.trim() ? `\n\nFollow these instructions from the student as well: "${template.customInstructions.trim()}"` : '';
+
+// The study guide fields a template can include, in the order they're requested. The summary is always included.
+const STUDY_GUIDE_FIELDS: (TemplateSection & keyof typeof studyGuideSchema.properties)[] = ['keySections', 'formulas', 'glossary', 'examQuestions', 'quiz'];
+
+const studyGuideFields = (template: StudyGuideTemplate) =>
+    ['summary', ...STUDY_GUIDE_FIELDS.filter(field => template.sections.includes(field))];
+
+/** The study guide schema, limited to the sections the template asks for. */
+export const buildStudyGuideSchema = (template: StudyGuideTemplate): JsonSchema => {
+    const fields = studyGuideFields(template);
+    return {
+        type: 'object',
+        properties: Object.fromEntries(fields.map(field => [field, studyGuideSchema.properties![field]])),
+        propertyOrdering: fields,
+    };
+};
+
+export const buildStudyGuidePrompt = (transcript: string, template: StudyGuideTemplate, language?: string, slides?: Slide[], references?: ReferenceDocument[]) => {
+    const instructions = { ...sectionInstructions(template), quiz: quizInstructions(template) };
+    const fields = studyGuideFields(template).map((field, index) => `${index + 1}. "${field}": ${instructions[field as keyof typeof instructions]}`);
+    return `Based on the following transcription of a lecture, generate a comprehensive study guide.${languageInstruction(language)} The output must be a single, valid JSON object.\n\nThe JSON object must contain these fields:\n${fields.join('\n')}${customInstructions(template)}${slidesContext(slides, 'Use them as well as the transcript.')}${referencesContext(references, 'Take formulas and definitions from them exactly as written there.')}\n\nHere is the transcript:\n---\n${transcript}\n---`;
+};
+
+export const buildDetailedNotesPrompt = (transcript: string, template: StudyGuideTemplate, language?: string, slides?: Slide[], references?: ReferenceDocument[]) =>
+    `Transform the following lecture transcript into a set of high-quality, detailed study notes. ${notesGuidelines(template)}${languageInstruction(language)}${customInstructions(template)}${slidesContext(slides, 'Work their content into the notes, and show each slide that is worth seeing at the point in the notes where it is discussed by putting ![Slide N](slide-N) on a line of its own, with N the slide\'s number.')}${referencesContext(references, 'The student needs to know where each point comes from: end every point that comes from the references rather than from what was said with *(from NAME)*, using the reference\'s name as given below. Points without a source note must come from the transcript.')}\n\nTranscript:\n---\n${transcript}\n---`;
+
+export const buildSlideContentPrompt = (count: number) =>
+    `Each of the following ${count} images is a frame from a lecture video, in order, usually showing a slide, a whiteboard or a blackboard. For each image, give "text": all the readable text, as markdown; "formulas": every formula or equation shown, each written as a LaTeX math expression without surrounding $ delimiters; and "diagrams": a short description of any diagrams, charts or drawings, or an empty string if there are none. If an image shows no slide or board at all, give empty values. The output must be a single, valid JSON array with exactly one object per image, in the same order as the images.`;
+
+export const buildVocabularyPrompt = (references: ReferenceDocument[]) =>
+    `The following are the slides and readings for a lecture that is about to be transcribed from its recording. List the technical terms, names, acronyms, symbols and formula names from them that someone transcribing the lecture might misspell, at most ${MAX_VOCABULARY}, each spelled exactly as in the documents. Leave out everyday words. The output must be a single, valid JSON array of strings.\n---\n${referencesText(references)}\n---`;
+
+export const buildDetectLanguagePrompt = (transcript: string) =>
+    `Which language is the following lecture transcript in? If several are used, give the main one. Reply with the language's English name only, for example "Spanish".\n\nTranscript:\n---\n${transcript.slice(0, LANGUAGE_SAMPLE_LENGTH)}\n---`;
+
+export const buildTranslationPrompt = (texts: string[], from: string, to: string) =>
+    `Translate each of the following ${from} lecture transcript lines into ${to}. Keep the meaning and the speaker's tone, and keep technical terms, names and formulas accurate. The output must be a single, valid JSON array of strings with exactly one translation per line, in the same order as the lines.\n\nLines:\n${JSON.stringify(texts)}`;
+
+export const buildQuizPrompt = (transcript: string, template: StudyGuideTemplate) =>
+    `Based on the following transcription of a lecture, write ${quizInstructions(template)} The output must be a single, valid JSON array of questions.${customInstructions(template)}\n\nHere is the transcript:\n---\n${transcript}\n---`;
+
+export const buildRegenerateSectionPrompt = (
+    transcript: string, section: EditableSection, current: string, template: StudyGuideTemplate, guidance?: string, language?: string,
+) =>
+    `Here is the current "${SECTION_LABELS[section]}" section of a study guide for a lecture:\n---\n${current}\n---\n\nWrite a new version of this section from the lecture transcript below. The section should be: ${sectionInstructions(template)[section]}${languageInstruction(language)}${customInstructions(template)}${guidance ? `\n\nThe student asked for this change: "${guidance}"` : ''}\n\n${section === 'summary' || section === 'detailedNotes' ? 'Reply with the new section only, without any introduction.' : 'The output must be a single, valid JSON array.'}\n\nHere is the transcript:\n---\n${transcript}\n---`;
+
+export const buildExamAnswersPrompt = (transcript: string, questions: string[]) =>
+    `Answer each of the following exam questions about a lecture using only the information in the lecture transcript. Keep every answer to a few sentences, suitable for the back of a flashcard. The output must be a single, valid JSON array of strings with exactly one answer per question, in the same order as the questions.\n\nQuestions:\n${questions.map((question, index) => `${index + 1}. ${question}`).join('\n')}\n\nHere is the transcript:\n---\n${transcript}\n---`;
+
+
+// --- HELPERS ---
+
+const formatSeconds = (seconds: number) => {
+    const total = Math.max(0, Math.floor(seconds));
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${Math.floor(total / 60)}:${pad(total % 60)}`;
+};
+
+/** Formulas that only differ in spacing are the same formula. */
+export const formulaKey = (formula: string) => formula.replace(/\s+/g, '');
+
+export const segmentsToText = (segments: TranscriptSegment[]) =>
+    segments.map(segment => `${segment.speaker}: ${segment.text}`).join('\n');
+
+/** Fills the parts of the study materials a stopped run didn't get to with empty values. */
+export const fillMissingMaterials = (materials: Partial<StudyMaterials>): StudyMaterials => ({
+    summary: '',
+    keySections: [],
+    formulas: [],
+    glossary: [],
+    examQuestions: [],
+    transcript: '',
+    detailedNotes: '',
+    ...materials,
+});
+
+/** Parses a JSON reply, tolerating a surrounding markdown code fence. */
+export const parseJsonResponse = <T>(text: string): T => {
+    let jsonText = text.trim();
+    if (jsonText.startsWith('```json')) {
+        jsonText = jsonText.slice(7, -3).trim();
+    } else if (jsonText.startsWith('```')) {
+        jsonText = jsonText.slice(3, -3).trim();
+    }
+    return JSON.parse(jsonText);
+};
+
+const invalidResponse = (description: string, problem: string) =>
+    new PipelineError('invalidResponse', `The ${description} from the AI ${problem}. Please try again.`);
+
+/** Sends a plain-text request, retrying transient failures. An empty reply counts as an invalid response. */
+export const generateText = (llm: LLMProvider, request: GenerateRequest, description: string) => withRetry(async () => {
+    const text = (await llm.generate(request)).trim();
+    if (!text) throw invalidResponse(description, 'was empty');
+    return text;
+}, { signal: request.signal });
+
+/**
+ * Sends a structured request and checks the parsed reply at runtime with `validate`, which returns the typed
+ * value or throws. Replies that don't parse or don't validate are retried like any other transient failure.
+ */
+export const generateJson = <T>(llm: LLMProvider, request: GenerateRequest, description: string, validate: (value: unknown) => T) => withRetry(async () => {
+    const text = await llm.generate(request);
+    let value: unknown;
+    try {
+        value = parseJsonResponse<unknown>(text);
+    } catch (e) {
+        console.error("JSON parsing error:", e);
+        console.error("Original text from API:", text);
+        throw invalidResponse(description, 'was not in the expected JSON format');
+    }
+    return validate(value);
+}, { signal: request.signal });
+
+
+// --- VALIDATION ---
+
+const expectStringList = (description: string, length?: number) => (value: unknown) => {
+    if (!Array.isArray(value)) throw invalidResponse(description, 'was not a list');
+    if (length !== undefined && value.length !== length) throw invalidResponse(description, `had ${value.length} entries instead of ${length}`);
+    return value.map(entry => String(entry ?? '').trim());
+};
+
+/** Checks a study guide reply against the StudyMaterials fields it should fill in. */
+export const validateStudyGuide = (value: unknown): StudyGuide => {
+    if (!isRecord(value)) throw invalidResponse('study guide', 'was not a JSON object');
+    // Empty lists are sometimes left out altogether, which is harmless; a field of the wrong type is not.
+    const list = (key: string) => value[key] ?? [];
+    const problems: string[] = [];
+    if (typeof value.summary !== 'string' || !value.summary.trim()) problems.push('"summary" is missing');
+    for (const key of ['keySections', 'formulas', 'examQuestions']) {
+        if (!isStringArray(list(key))) problems.push(`"${key}" is not a list of strings`);
+    }
+    if (!isGlossary(list('glossary'))) problems.push('"glossary" is not a list of terms and definitions');
+    if (problems.length > 0) throw invalidResponse('study guide', `was incomplete (${problems.join('; ')})`);
+
+    return {
+        summary: (value.summary as string).trim(),
+        keySections: list('keySections') as string[],
+        formulas: list('formulas') as string[],
+        glossary: list('glossary') as GlossaryItem[],
+        examQuestions: list('examQuestions') as string[],
+        // Left out when the template has no quiz, so one can still be generated on its own later.
+        ...(value.quiz !== undefined && { quiz: normalizeQuiz(value.quiz) }),
+    };
+};
+
+
+// --- PIPELINE STEPS ---
+
+export const transcribeLecture = async (transcriber: TranscriptionProvider, file: File, options: TranscribeOptions) => {
+    const transcriptSegments = await transcriber.transcribe(file, options);
+    const transcript = segmentsToText(transcriptSegments);
+    if (!transcriptSegments.some(segment => segment.text.trim())) {
+        throw new PipelineError('badMedia', "The model returned an empty transcript. The audio might be silent or in an unsupported format.");
+    }
+    return { transcript, transcriptSegments };
+};
+
+/** The terms in the attached references that transcription should listen for. */
+export const extractVocabulary = async (llm: LLMProvider, references: ReferenceDocument[], signal?: AbortSignal) => {
+    const terms = await generateJson(llm, {
+        prompt: buildVocabularyPrompt(references),
+        attachments: referenceAttachments(references),
+        responseSchema: { type: 'array', items: { type: 'string' } },
+        signal,
+    }, 'vocabulary', expectStringList('vocabulary'));
+    return [...new Set(terms.map(term => term.trim()).filter(Boolean))].slice(0, MAX_VOCABULARY);
+};
+
+/** Names the language a transcript is in, e.g. "Spanish". */
+export const detectLanguage = (llm: LLMProvider, transcript: string, signal?: AbortSignal) => withRetry(async () => {
+    const reply = await llm.generate({ prompt: buildDetectLanguagePrompt(transcript), signal });
+    const language = reply.trim().split('\n')[0].replace(/["'.*]/g, '').trim();
+    if (!language || language.length > 40) {
+        throw new PipelineError('invalidResponse', "Could not detect the language of the lecture. Please choose the spoken language and try again.");
+    }
+    return language;
+}, { signal });
+
+/** Translates the text of each segment, keeping its timing and speaker so it lines up with the original. */
+export const translateSegments = async (
+    llm: LLMProvider, segments: TranscriptSegment[], from: string, to: string, signal?: AbortSignal,
+): Promise<TranscriptSegment[]> => {
+    const translated: TranscriptSegment[] = [];
+    for (let start = 0; start < segments.length; start += TRANSLATION_BATCH_SIZE) {
+        const batch = segments.slice(start, start + TRANSLATION_BATCH_SIZE);
+        const lines = await generateJson(llm, {
+            prompt: buildTranslationPrompt(batch.map(segment => segment.text), from, to),
+            responseSchema: { type: 'array', items: { type: 'string' } },
+            signal,
+        }, `${to} translation`, expectStringList(`${to} translation`, batch.length));
+        translated.push(...batch.map((segment, index) => ({ ...segment, text: lines[index] || segment.text })));
+    }
+    return translated;
+};
+
+/**
+ * Reads the text, formulas and diagrams on each captured frame. Frames that turn out to show no slide or
+ * board (the lecturer, the audience) are dropped.
+ */
+export const readSlides = async (llm: LLMProvider, frames: SlideFrame[], signal?: AbortSignal): Promise<Slide[]> => {
+    const slides: Slide[] = [];
+    for (let start = 0; start < frames.length; start += SLIDE_BATCH_SIZE) {
+        const batch = frames.slice(start, start + SLIDE_BATCH_SIZE);
+        const contents = await generateJson(llm, {
+            prompt: buildSlideContentPrompt(batch.length),
+            attachments: batch.map(frame => ({ mimeType: 'image/jpeg', data: frame.image.slice(frame.image.indexOf(',') + 1) })),
+            responseSchema: slideContentSchema,
+            signal,
+        }, 'slide contents', value => {
+            if (!Array.isArray(value) || value.length !== batch.length) throw invalidResponse('slide contents', `did not describe all ${batch.length} slides`);
+            return value.map(content => ({
+                text: isRecord(content) && typeof content.text === 'string' ? content.text.trim() : '',
+                formulas: isRecord(content) && isStringArray(content.formulas) ? content.formulas.map(formula => formula.trim()).filter(Boolean) : [],
+                diagrams: isRecord(content) && typeof content.diagrams === 'string' ? content.diagrams.trim() : '',
+            }));
+        });
+        slides.push(...batch.map((frame, index) => ({ ...frame, ...contents[index] })));
+    }
+    return slides.filter(slide => slide.text || slide.formulas.length > 0 || slide.diagrams);
+};
+
+/** Adds the formulas from the slides that the study guide doesn't already have. */
+export const mergeSlideFormulas = (formulas: string[], slides: Slide[]) => {
+    const known = new Set(formulas.map(formulaKey));
+    const merged = [...formulas];
+    for (const formula of slides.flatMap(slide => slide.formulas)) {
+        if (known.has(formulaKey(formula))) continue;
+        known.add(formulaKey(formula));
+        merged.push(formula);
+    }
+    return merged;
+};
+
+export const generateStudyGuide = async (
+    llm: LLMProvider, transcript: string, template: StudyGuideTemplate, language?: string, slides?: Slide[], references?: ReferenceDocument[], signal?: AbortSignal,
+): Promise<StudyGuide> => {
+    const guide = await generateJson(llm, {
+        prompt: buildStudyGuidePrompt(transcript, template, language, slides, references),
+        attachments: referenceAttachments(references),
+        responseSchema: buildStudyGuideSchema(template),
+        signal,
+    }, 'study guide', validateStudyGuide);
+    // Formulas written on the board but never read out must not depend on the model noticing them.
+    return slides?.length && template.sections.includes('formulas') ? { ...guide, formulas: mergeSlideFormulas(guide.formulas, slides) } : guide;
+};
+
+export const generateDetailedNotes = (
+    llm: LLMProvider, transcript: string, template: StudyGuideTemplate, language?: string, slides?: Slide[], references?: ReferenceDocument[], signal?: AbortSignal,
+) =>
+    generateText(llm, {
+        prompt: buildDetailedNotesPrompt(transcript, template, language, slides, references),
+        attachments: referenceAttachments(references),
+        signal,
+    }, 'detailed notes');
+
+/** Answers each exam question from the transcript, in the same order as the questions. */
+export const generateExamAnswers = async (llm: LLMProvider, transcript: string, questions: string[]): Promise<string[]> => {
+    if (questions.length === 0) return [];
+    const answers = await generateJson(llm, {
+        prompt: buildExamAnswersPrompt(transcript, questions),
+        responseSchema: { type: 'array', items: { type: 'string' } },
+    }, 'exam answers', expectStringList('exam answers'));
+    return questions.map((_, index) => answers[index] ?? '');
+};
+
+/** Generates a practice quiz on its own, for lectures saved before quizzes were part of the study guide. */
+export const generateQuiz = (llm: LLMProvider, transcript: string, template: StudyGuideTemplate) =>
+    generateJson(llm, { prompt: buildQuizPrompt(transcript, template), responseSchema: quizSchema }, 'quiz', value => {
+        const quiz = normalizeQuiz(value);
+        if (quiz.length === 0) throw invalidResponse('quiz', 'did not contain any usable questions');
+        return quiz;
+    });
+
+/** Grades short answers against their rubrics. Returns one result per item, in order. */
+export const gradeShortAnswers = async (llm: LLMProvider, items: { question: ShortAnswerQuestion, response: string }[]): Promise<QuizAnswerResult[]> => {
+    if (items.length === 0) return [];
+    const grades = await generateJson(llm, { prompt: buildShortAnswerGradingPrompt(items), responseSchema: shortAnswerGradesSchema }, 'grading', value => {
+        if (!Array.isArray(value)) throw invalidResponse('grading', 'was not a list');
+        return value;
+    });
+    return items.map(({ response }, index) => {
+        const grade = grades[index] as { score?: number, feedback?: string } | undefined;
+        return {
+            response,
+            score: Math.min(1, Math.max(0, Number(grade?.score) || 0)),
+            feedback: grade?.feedback?.trim() || 'No feedback was returned for this answer.',
+        };
+    });
+};
+
+/** Re-prompts a single section of the study guide from the transcript, optionally steered by the student's guidance. */
+export const regenerateSection = async (
+    llm: LLMProvider, materials: StudyMaterials, section: EditableSection, template: StudyGuideTemplate, guidance?: string, language?: string,
+): Promise<StudyMaterials[EditableSection]> => {
+    const prompt = buildRegenerateSectionPrompt(materials.transcript, section, sectionToText(materials, section), template, guidance, language);
+    const description = `new ${SECTION_LABELS[section]}`;
+    if (section === 'summary' || section === 'detailedNotes') {
+        return generateText(llm, { prompt }, description);
+    }
+    return generateJson(llm, { prompt, responseSchema: { type: 'array', items: studyGuideSchema.properties![section].items } }, description, value => {
+        if (!Array.isArray(value)) throw invalidResponse(description, 'was not a list');
+        return section === 'glossary'
+            ? value.filter((item): item is GlossaryItem => typeof item?.term === 'string' && typeof item?.definition === 'string')
+            : value.map(String);
+    });
+};
+
+/**
+ * Runs all three steps: transcription, study guide and detailed notes (unless the template leaves them out).
+ * For video lectures, the slides and whiteboard are captured and read between transcription and the study
+ * guide, so both the study guide and the notes can draw on them. Slides and readings the student attached
+ * are read before transcription for the terms to listen for, and given to both later steps as reference
+ * material. The lecture is transcribed in the language it is spoken in; when the study materials are wanted
+ * in another language, the transcript is translated first and the original is kept alongside it.
+ *
+ * A checkpoint is reported after every step, so a run that fails or is aborted through `signal` can be
+ * resumed from where it stopped without paying for the finished steps again.
+ */
+export const generateStudyMaterials = async ({
+    file, duration, transcriber, llm, slideDetector, template, references, vocabulary = [], transcriptSegments: existingSegments, language = DEFAULT_LANGUAGE_OPTIONS,
+    resumeFrom, signal, onStep, onCheckpoint, onTranscriptionProgress, onSlideProgress,
+}: PipelineOptions): Promise<GeneratedLecture> => {
+    let checkpoint: PipelineCheckpoint = resumeFrom ?? { materials: {}, completedSteps: [] };
+    const isDone = (step: PipelineStep) => checkpoint.completedSteps.includes(step);
+    const complete = (step: PipelineStep, materials: Partial<StudyMaterials>, lectureLanguage = checkpoint.language) => {
+        checkpoint = {
+            materials: { ...checkpoint.materials, ...materials },
+            language: lectureLanguage,
+            completedSteps: [...checkpoint.completedSteps, step],
+        };
+        onCheckpoint?.(checkpoint);
+    };
+
+    if (!isDone('transcription')) {
+        const spokenLanguage = language.source === AUTO_DETECT ? undefined : language.source;
+        let transcriptSegments: TranscriptSegment[];
+        if (existingSegments?.length) {
+            transcriptSegments = existingSegments;
+        } else {
+            if (!file) throw new PipelineError('badMedia', "The recording is needed to transcribe this lecture.");
+            signal?.throwIfAborted();
+            onStep?.('transcription');
+            const hints = vocabulary.map(entry => entry.term);
+            if (references?.length) {
+                try {
+                    hints.push(...await extractVocabulary(llm, references, signal));
+                } catch (err) {
+                    // The hints only improve spelling; the lecture can be transcribed without them.
+                    if (signal?.aborted) throw err;
+                    console.error("Could not read terms from the references; transcribing without them", err);
+                }
+            }
+            ({ transcriptSegments } = await transcribeLecture(transcriber, file, {
+                duration, language: spokenLanguage, vocabulary: hints.length > 0 ? [...new Set(hints)] : undefined, signal, onProgress: onTranscriptionProgress,
+            }));
+        }
+        // Live transcripts are corrected too, so every transcript of the course spells things the same way.
+        transcriptSegments = applyVocabulary(transcriptSegments, vocabulary);
+        const transcript = segmentsToText(transcriptSegments);
+        const source = spokenLanguage ?? await detectLanguage(llm, transcript, signal);
+        const target = language.target === SAME_AS_SPOKEN ? source : language.target;
+        complete('transcription', { transcript, transcriptSegments }, { source, target, detected: !spokenLanguage });
+    }
+
+    // Lectures from before language options were added were always transcribed into English.
+    const { source, target } = checkpoint.language ?? { source: DEFAULT_TARGET_LANGUAGE, target: DEFAULT_TARGET_LANGUAGE };
+    if (!isDone('translation')) {
+        if (isSameLanguage(source, target)) {
+            complete('translation', {});
+        } else {
+            signal?.throwIfAborted();
+            onStep?.('translation');
+            const { transcript, transcriptSegments = [] } = checkpoint.materials;
+            const translated = await translateSegments(llm, transcriptSegments, source, target, signal);
+            complete('translation', {
+                transcript: segmentsToText(translated),
+                transcriptSegments: translated,
+                originalTranscript: transcript,
+                originalTranscriptSegments: transcriptSegments,
+            });
+        }
+    }
+
+    if (!isDone('slides')) {
+        if (!slideDetector || !file?.type.startsWith('video/') || !template.sections.includes('slides')) {
+            complete('slides', {});
+        } else {
+            signal?.throwIfAborted();
+            onStep?.('slides');
+            let slides: Slide[] | undefined;
+            try {
+                const frames = await slideDetector.detect(file, { signal, onProgress: onSlideProgress });
+                if (frames.length > 0) slides = await readSlides(llm, frames, signal);
+            } catch (err) {
+                // The lecture can still be studied from its audio; only a cancellation stops the run.
+                if (signal?.aborted) throw err;
+                console.error("Slide capture failed; continuing without slides", err);
+            }
+            complete('slides', slides ? { slides } : {});
+        }
+    }
+
+    const transcript = checkpoint.materials.transcript ?? '';
+    const slides = checkpoint.materials.slides;
+    if (!isDone('studyGuide')) {
+        signal?.throwIfAborted();
+        onStep?.('studyGuide');
+        complete('studyGuide', await generateStudyGuide(llm, transcript, template, target, slides, references, signal));
+    }
+
+    if (!isDone('detailedNotes')) {
+        if (!template.sections.includes('detailedNotes')) {
+            complete('detailedNotes', {});
+        } else {
+            signal?.throwIfAborted();
+            onStep?.('detailedNotes');
+            complete('detailedNotes', { detailedNotes: await generateDetailedNotes(llm, transcript, template, target, slides, references, signal) });
+        }
+    }
+
+    return {
+        materials: fillMissingMaterials(checkpoint.materials),
+        language: checkpoint.language ?? { source, target, detected: false },
+        template,
+        references,
+    };
+};
@@ -0,0 +1,68 @@
+import { MultipleChoiceQuestion, QuizAnswerResult, QuizQuestion, ShortAnswerQuestion } from '../types';
+import type { JsonSchema } from './pipeline';
+import { isRecord } from './validation';
+
+// The model can't return a tagged union directly, so every question comes back with the union of
+// all fields and is narrowed into a typed question here.
+export const quizQuestionSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        type: { type: 'string' },
+        question: { type: 'string' },
+        options: { type: 'array', items: { type: 'string' } },
+        correctIndex: { type: 'integer' },
+        explanation: { type: 'string' },
+        rubric: { type: 'string' },
+    },
+    propertyOrdering: ["type", "question", "options", "correctIndex", "explanation", "rubric"],
+};
+
+export const quizSchema: JsonSchema = { type: 'array', items: quizQuestionSchema };
+
+export const shortAnswerGradesSchema: JsonSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: { score: { type: 'number' }, feedback: { type: 'string' } },
+        propertyOrdering: ["score", "feedback"],
+    },
+};
+
+export const buildQuizInstructions = (count: number) => `a practice quiz of ${count} questions mixing two kinds. Multiple-choice questions have "type": "mcq", the "question", exactly 4 "options", the zero-based "correctIndex" of the right option and an "explanation" of why it is right. Short-answer questions have "type": "short", the "question" and a "rubric" listing the key points a complete answer must mention.`;
+
+/** The trimmed text of a field the model may have left out or filled with something other than a string. */
+const textField = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+/** Narrows raw model output into typed questions, dropping anything malformed. */
+export const normalizeQuiz = (raw: unknown): QuizQuestion[] => {
+    if (!Array.isArray(raw)) return [];
+    return raw.flatMap((item: unknown): QuizQuestion[] => {
+        if (!isRecord(item)) return [];
+        const question = textField(item.question);
+        if (!question) return [];
+        const options = Array.isArray(item.options) ? item.options.map(String).filter(option => option.trim()) : [];
+        const correctIndex = Number(item.correctIndex);
+        if (item.type === 'mcq' && options.length >= 2 && Number.isInteger(correctIndex) && correctIndex >= 0 && correctIndex < options.length) {
+            return [{ type: 'mcq', question, options, correctIndex, explanation: textField(item.explanation) }];
+        }
+        const rubric = textField(item.rubric);
+        if (item.type === 'short' && rubric) {
+            return [{ type: 'short', question, rubric }];
+        }
+        return [];
+    });
+};
+
+export const scoreMultipleChoice = (question: MultipleChoiceQuestion, response: number | null): QuizAnswerResult => {
+    const correct = response === question.correctIndex;
+    return {
+        response,
+        score: correct ? 1 : 0,
+        feedback: correct
+            ? question.explanation
+            : `The correct answer is "${question.options[question.correctIndex]}". ${question.explanation}`.trim(),
+    };
+};
+
+export const buildShortAnswerGradingPrompt = (items: { question: ShortAnswerQuestion, response: string }[]) =>
+    `You are grading a student's answers to short-answer questions about a lecture. Grade each answer strictly against its rubric. For each answer return a "score" between 0 and 1 (1 means every rubric point is covered, 0 means none are) and one or two sentences of "feedback" telling the student what they got right and what they missed. The output must be a single, valid JSON array with exactly one grade per answer, in the same order.\n\n${items.map(({ question, response }, index) => `Question ${index + 1}: ${question.question}\nRubric: ${question.rubric}\nStudent answer: ${response.trim() || '(no answer)'}`).join('\n\n')}`;
@@ -0,0 +1,194 @@
+import { TranscriptSegment } from '../types';
+import { TranscriptionProvider } from './pipeline';
+import { appendRecordingChunk, deleteRecording } from './storage';
+
+// Live lecture recording. Two MediaRecorders share the captured audio stream:
+// - the main recorder produces the full recording, and each second of it is written to IndexedDB as it
+//   arrives, so the audio can be recovered if the tab crashes or is closed mid-lecture;
+// - the segment recorder is restarted every SEGMENT_SECONDS, so each segment is a complete, playable file
+//   that can be transcribed while the lecture carries on.
+
+export type RecordingSource = 'microphone' | 'tab';
+
+const SEGMENT_SECONDS = 60;
+const TIMESLICE_MS = 1000;
+// Ogg is preferred because the transcription model lists it as supported; Chrome only records WebM, Safari only MP4.
+const MIME_TYPES = ['audio/ogg;codecs=opus', 'audio/webm;codecs=opus', 'audio/webm', 'audio/mp4'];
+
+export interface LiveRecordingOptions {
+    source: RecordingSource;
+    transcriber: TranscriptionProvider;
+    language?: string; // the spoken language, when known
+    onLevel?: (level: number) => void; // 0 to 1, once per animation frame
+    onTranscript?: (segments: TranscriptSegment[]) => void; // the whole live transcript so far
+    onSourceEnded?: () => void; // e.g. the user stopped sharing the tab
+}
+
+export interface RecordingResult {
+    file: File;
+    // null when part of the lecture could not be transcribed live; the file then needs a full transcription.
+    transcriptSegments: TranscriptSegment[] | null;
+}
+
+export interface LiveRecording {
+    sessionId: number;
+    startedAt: number;
+    stop(): Promise<RecordingResult>;
+    cancel(): void;
+}
+
+const pickMimeType = () => MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+
+/** A readable file name for a recording, e.g. "Lecture recording 2024-03-05 14-30.webm". */
+export const recordingFileName = (startedAt: number, mimeType: string) => {
+    const extension = mimeType.includes('ogg') ? 'ogg' : mimeType.includes('mp4') ? 'm4a' : 'webm';
+    const date = new Date(startedAt);
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `Lecture recording ${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}-${pad(date.getMinutes())}.${extension}`;
+};
+
+export const toRecordingFile = (data: Blob, startedAt: number) =>
+    new File([data], recordingFileName(startedAt, data.type), { type: data.type.split(';')[0] || 'audio/webm' });
+
+const captureAudio = async (source: RecordingSource) => {
+    if (source === 'microphone') {
+        return navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: false, noiseSuppression: true } });
+    }
+    // Browsers only offer tab audio as part of a screen share, so the video track is dropped straight away.
+    const stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: true });
+    stream.getVideoTracks().forEach(track => {
+        track.stop();
+        stream.removeTrack(track);
+    });
+    if (stream.getAudioTracks().length === 0) {
+        throw new Error('No audio was shared. When choosing the tab, make sure "Share tab audio" is switched on.');
+    }
+    return stream;
+};
+
+/** Reports the stream's loudness (RMS) until the returned function is called. */
+const monitorLevel = (stream: MediaStream, onLevel: (level: number) => void) => {
+    const context = new AudioContext();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 1024;
+    context.createMediaStreamSource(stream).connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+    let frame = 0;
+    const tick = () => {
+        analyser.getFloatTimeDomainData(samples);
+        const rms = Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+        onLevel(Math.min(1, rms * 4)); // speech rarely goes above 0.25 RMS
+        frame = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => {
+        cancelAnimationFrame(frame);
+        context.close();
+    };
+};
+
+const stopRecorder = (recorder: MediaRecorder) => new Promise<void>((resolve) => {
+    if (recorder.state === 'inactive') {
+        resolve();
+        return;
+    }
+    recorder.addEventListener('stop', () => resolve(), { once: true });
+    recorder.stop();
+});
+
+export const startLiveRecording = async ({ source, transcriber, language, onLevel, onTranscript, onSourceEnded }: LiveRecordingOptions): Promise<LiveRecording> => {
+    const stream = await captureAudio(source);
+    const mimeType = pickMimeType();
+    const recorderOptions = mimeType ? { mimeType } : undefined;
+    const startedAt = Date.now();
+    const sessionId = startedAt;
+    const stopLevel = onLevel ? monitorLevel(stream, onLevel) : () => {};
+    stream.getAudioTracks()[0]?.addEventListener('ended', () => onSourceEnded?.());
+
+    // --- Full recording, persisted as it goes ---
+    const chunks: Blob[] = [];
+    let persistFailed = false;
+    const recorder = new MediaRecorder(stream, recorderOptions);
+    recorder.ondataavailable = (event) => {
+        if (event.data.size === 0) return;
+        chunks.push(event.data);
+        appendRecordingChunk({ sessionId, index: chunks.length - 1, mimeType: recorder.mimeType, data: event.data }).catch(err => {
+            if (!persistFailed) console.error("Could not save the recording in progress; it won't be recoverable after a crash", err);
+            persistFailed = true;
+        });
+    };
+    recorder.start(TIMESLICE_MS);
+
+    // --- Rolling segments, transcribed one after another ---
+    const liveSegments: TranscriptSegment[] = [];
+    let isLiveTranscriptComplete = true;
+    let transcriptionQueue = Promise.resolve();
+    let segmentRecorder: MediaRecorder | null = null;
+
+    const transcribeSegment = (data: Blob, offset: number, duration: number) => {
+        transcriptionQueue = transcriptionQueue.then(async () => {
+            try {
+                const file = toRecordingFile(data, startedAt + offset * 1000);
+                const segments = await transcriber.transcribe(file, { duration, language });
+                liveSegments.push(...segments.map(segment => ({ ...segment, start: segment.start + offset, end: segment.end + offset })));
+                onTranscript?.([...liveSegments]);
+            } catch (err) {
+                console.error("Live transcription of a recording segment failed", err);
+                isLiveTranscriptComplete = false;
+            }
+        });
+    };
+
+    const startSegment = () => {
+        const offset = (Date.now() - startedAt) / 1000;
+        const parts: Blob[] = [];
+        const segment = new MediaRecorder(stream, recorderOptions);
+        segment.ondataavailable = (event) => {
+            if (event.data.size > 0) parts.push(event.data);
+        };
+        segment.onstop = () => {
+            if (parts.length > 0) {
+                transcribeSegment(new Blob(parts, { type: segment.mimeType }), offset, (Date.now() - startedAt) / 1000 - offset);
+            }
+        };
+        segment.start();
+        segmentRecorder = segment;
+    };
+
+    startSegment();
+    const rotation = setInterval(() => {
+        segmentRecorder?.stop();
+        startSegment();
+    }, SEGMENT_SECONDS * 1000);
+
+    const release = () => {
+        clearInterval(rotation);
+        stopLevel();
+        stream.getTracks().forEach(track => track.stop());
+    };
+
+    return {
+        sessionId,
+        startedAt,
+        /** Stops recording and waits for the last segment to be transcribed. The recovery copy is kept until the caller deletes it. */
+        stop: async () => {
+            clearInterval(rotation);
+            await Promise.all([stopRecorder(recorder), segmentRecorder ? stopRecorder(segmentRecorder) : Promise.resolve()]);
+            release();
+            await transcriptionQueue;
+            return {
+                file: toRecordingFile(new Blob(chunks, { type: recorder.mimeType || mimeType }), startedAt),
+                transcriptSegments: isLiveTranscriptComplete ? liveSegments : null,
+            };
+        },
+        /** Stops recording and throws the audio away, including the recovery copy. */
+        cancel: () => {
+            recorder.ondataavailable = null;
+            if (segmentRecorder) segmentRecorder.onstop = null;
+            if (recorder.state !== 'inactive') recorder.stop();
+            if (segmentRecorder?.state !== 'inactive') segmentRecorder?.stop();
+            release();
+            deleteRecording(sessionId).catch(err => console.error("Failed to delete the cancelled recording", err));
+        },
+    };
+};
@@ -0,0 +1,75 @@
+import { ReferenceDocument } from '../types';
+import { readZip } from './zip';
+
+// Slides and readings attached to a lecture. PowerPoint decks are reduced to their text here, slide by slide;
+// PDFs are passed to the model whole, since it reads them better than any text extraction in the browser
+// would, including their formulas and diagrams.
+
+export const REFERENCE_ACCEPT = '.pdf,.pptx,.txt,.md,application/pdf,application/vnd.openxmlformats-officedocument.presentationml.presentation,text/plain,text/markdown';
+
+// PDFs go inline with every request that uses them, which must stay under the API's 20 MB limit (base64 included).
+export const MAX_PDF_BYTES = 8 * 1024 * 1024;
+const MAX_TEXT_LENGTH = 100_000;
+
+const DRAWINGML_NAMESPACE = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const SLIDE_PATH = /^ppt\/slides\/slide(\d+)\.xml$/;
+
+const readAsBase64 = (file: File) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+        const data = typeof reader.result === 'string' ? reader.result.split(',', 2)[1] : undefined;
+        if (data) resolve(data); else reject(new Error(`Could not read "${file.name}".`));
+    };
+    reader.onerror = () => reject(new Error(`Could not read "${file.name}".`));
+    reader.readAsDataURL(file);
+});
+
+/** The text of each slide in a .pptx deck, in order, one paragraph per line. */
+export const extractPptxText = async (file: Blob) => {
+    const entries = await readZip(file);
+    const slides = [...entries.keys()]
+        .map(path => ({ path, number: Number(SLIDE_PATH.exec(path)?.[1]) }))
+        .filter(slide => slide.number > 0)
+        .sort((a, b) => a.number - b.number);
+    const parser = new DOMParser();
+    const texts: string[] = [];
+    for (const [index, slide] of slides.entries()) {
+        const xml = parser.parseFromString(await entries.get(slide.path)!.text(), 'application/xml');
+        const lines = [...xml.getElementsByTagNameNS(DRAWINGML_NAMESPACE, 'p')]
+            .map(paragraph => [...paragraph.getElementsByTagNameNS(DRAWINGML_NAMESPACE, 't')].map(run => run.textContent ?? '').join('').trim())
+            .filter(Boolean);
+        if (lines.length > 0) texts.push(`[Slide ${index + 1}]\n${lines.join('\n')}`);
+    }
+    return texts.join('\n\n');
+};
+
+const fileType = (file: File): ReferenceDocument['type'] | null => {
+    const name = file.name.toLowerCase();
+    if (file.type === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+    if (name.endsWith('.pptx')) return 'pptx';
+    if (file.type.startsWith('text/') || name.endsWith('.txt') || name.endsWith('.md')) return 'text';
+    return null;
+};
+
+/** Reads an attached file. Throws an Error with a message for the student when it can't be used. */
+export const readReferenceFile = async (file: File): Promise<ReferenceDocument> => {
+    const type = fileType(file);
+    if (!type) throw new Error(`"${file.name}" can't be attached. Use a PDF, a PowerPoint (.pptx) deck or a text file.`);
+    if (type === 'pdf') {
+        if (file.size > MAX_PDF_BYTES) throw new Error(`"${file.name}" is too large to attach. PDFs can be up to ${MAX_PDF_BYTES / 1024 / 1024} MB.`);
+        return { name: file.name, type, content: await readAsBase64(file) };
+    }
+    let text: string;
+    try {
+        text = type === 'pptx' ? await extractPptxText(file) : await file.text();
+    } catch (err) {
+        console.error(`Failed to read "${file.name}"`, err);
+        throw new Error(`Could not read "${file.name}". It may be damaged or saved in an older format.`);
+    }
+    if (!text.trim()) throw new Error(`"${file.name}" has no text to use.`);
+    return { name: file.name, type, content: text.trim().slice(0, MAX_TEXT_LENGTH) };
+};
+
+/** The size of the PDFs sent with each request, in bytes (before base64). */
+export const attachedPdfBytes = (references: ReferenceDocument[]) =>
+    references.filter(reference => reference.type === 'pdf').reduce((total, reference) => total + reference.content.length * 3 / 4, 0);
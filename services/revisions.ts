@@ -0,0 +1,97 @@
+import { EditableSection, GlossaryItem, HistoryItem, MaterialsRevision, StudyMaterials } from '../types';
+
+// Edits and regenerations replace one section at a time. Each change records what the section looked like
+// before, newest first, so any change can be undone without storing whole copies of the study materials.
+
+const MAX_REVISIONS = 50;
+
+export const SECTION_LABELS: Record<EditableSection, string> = {
+    summary: 'Summary',
+    keySections: 'Key Sections',
+    formulas: 'Important Formulas',
+    glossary: 'Glossary',
+    examQuestions: 'Potential Exam Questions',
+    detailedNotes: 'Detailed Notes',
+};
+
+type SectionChanges = Pick<HistoryItem, 'materials' | 'revisions'>;
+
+/** The section as plain text for editing: lists are one entry per line, glossary entries are "Term: definition". */
+export const sectionToText = (materials: StudyMaterials, section: EditableSection): string => {
+    switch (section) {
+        case 'summary':
+        case 'detailedNotes':
+            return materials[section];
+        case 'glossary':
+            return materials.glossary.map(item => `${item.term}: ${item.definition}`).join('\n');
+        default:
+            return materials[section].join('\n');
+    }
+};
+
+export const textToSection = (section: EditableSection, text: string): StudyMaterials[EditableSection] => {
+    const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+    switch (section) {
+        case 'summary':
+        case 'detailedNotes':
+            return text.trim();
+        case 'glossary':
+            return lines.map((line): GlossaryItem => {
+                const separator = line.indexOf(':');
+                return separator === -1
+                    ? { term: line, definition: '' }
+                    : { term: line.slice(0, separator).trim(), definition: line.slice(separator + 1).trim() };
+            });
+        default:
+            return lines;
+    }
+};
+
+/** Replaces one section, recording its previous content so the change can be undone. */
+export const changeSection = (
+    item: HistoryItem,
+    section: EditableSection,
+    value: StudyMaterials[EditableSection],
+    change: MaterialsRevision['change'],
+    guidance?: string,
+): SectionChanges => {
+    const revisions = item.revisions ?? [];
+    const revision: MaterialsRevision = {
+        id: Math.max(Date.now(), (revisions[0]?.id ?? 0) + 1),
+        timestamp: Date.now(),
+        section,
+        change,
+        ...(guidance ? { guidance } : {}),
+        previous: item.materials[section],
+    };
+    return {
+        materials: { ...item.materials, [section]: value },
+        revisions: [revision, ...revisions].slice(0, MAX_REVISIONS),
+    };
+};
+
+/** Replaces several sections at once, recording a revision for each one that actually changed. */
+export const changeSections = (
+    item: HistoryItem,
+    values: Pick<StudyMaterials, EditableSection>,
+    change: MaterialsRevision['change'],
+    guidance?: string,
+): SectionChanges =>
+    (Object.keys(values) as EditableSection[]).reduce<SectionChanges>(
+        (current, section) => JSON.stringify(current.materials[section]) === JSON.stringify(values[section])
+            ? current
+            : changeSection({ ...item, ...current }, section, values[section], change, guidance),
+        { materials: item.materials, revisions: item.revisions },
+    );
+
+/** Puts a section back the way it was before the given change. The restore is itself recorded, so it can be undone too. */
+export const restoreRevision = (item: HistoryItem, revisionId: number): SectionChanges | null => {
+    const revision = item.revisions?.find(entry => entry.id === revisionId);
+    return revision ? changeSection(item, revision.section, revision.previous, 'restore') : null;
+};
+
+/** Reverts the most recent change and drops it from the history. */
+export const undoLastRevision = (item: HistoryItem): SectionChanges | null => {
+    const [latest, ...rest] = item.revisions ?? [];
+    return latest ? { materials: { ...item.materials, [latest.section]: latest.previous }, revisions: rest } : null;
+};
@@ -0,0 +1,134 @@
+import { HistoryItem } from '../types';
+
+// A small in-memory inverted index over every saved lecture. Each lecture is split into passages
+// (the summary, each line of the detailed notes, each glossary entry and each transcript segment) so a hit
+// can be opened at the exact spot it came from. Lectures are added and removed one at a time, so the index
+// never has to be rebuilt from scratch when the history changes.
+
+export type SearchField = 'summary' | 'detailedNotes' | 'glossary' | 'transcript';
+
+export interface SearchMatch {
+  field: SearchField;
+  location: number; // line, glossary entry or transcript segment index within the field
+  snippet: string;
+}
+
+export interface SearchResult {
+  historyId: number;
+  matches: SearchMatch[];
+}
+
+interface Passage {
+  historyId: number;
+  field: SearchField;
+  location: number;
+  text: string;
+}
+
+const SNIPPET_RADIUS = 80;
+const MAX_MATCHES_PER_LECTURE = 5;
+
+export const tokenize = (text: string) =>
+    text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').match(/[\p{L}\p{N}]+/gu) ?? [];
+
+const splitIntoPassages = (item: HistoryItem): Passage[] => {
+    const { materials } = item;
+    const passage = (field: SearchField, location: number, text: string): Passage => ({ historyId: item.id, field, location, text });
+    const lines = (text: string) => text.split('\n').map((line, index) => ({ line, index })).filter(({ line }) => line.trim() !== '');
+
+    return [
+        passage('summary', 0, materials.summary),
+        ...lines(materials.detailedNotes).map(({ line, index }) => passage('detailedNotes', index, line)),
+        ...materials.glossary.map((entry, index) => passage('glossary', index, `${entry.term}: ${entry.definition}`)),
+        ...(materials.transcriptSegments?.length
+            ? materials.transcriptSegments.map((segment, index) => passage('transcript', index, segment.text))
+            : lines(materials.transcript).map(({ line, index }) => passage('transcript', index, line))),
+    ];
+};
+
+/** Cuts a window of text around the first occurrence of any query term. */
+const makeSnippet = (text: string, terms: string[]) => {
+    const lower = text.toLowerCase();
+    const position = Math.min(...terms.map(term => lower.indexOf(term)).filter(index => index !== -1), text.length);
+    if (text.length <= SNIPPET_RADIUS * 2) return text;
+    const start = Math.max(0, position - SNIPPET_RADIUS);
+    const end = Math.min(text.length, position + SNIPPET_RADIUS);
+    return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+};
+
+export const createSearchIndex = () => {
+    const passages = new Map<string, Passage>();
+    const postings = new Map<string, Set<string>>(); // token -> passage keys
+    const passageKeysByLecture = new Map<number, string[]>();
+
+    const remove = (historyId: number) => {
+        for (const key of passageKeysByLecture.get(historyId) ?? []) {
+            const passage = passages.get(key)!;
+            for (const token of new Set(tokenize(passage.text))) {
+                const keys = postings.get(token);
+                keys?.delete(key);
+                if (keys?.size === 0) postings.delete(token);
+            }
+            passages.delete(key);
+        }
+        passageKeysByLecture.delete(historyId);
+    };
+
+    /** Adds a lecture, replacing whatever was indexed for it before. */
+    const add = (item: HistoryItem) => {
+        remove(item.id);
+        const keys = splitIntoPassages(item).map(passage => {
+            const key = `${passage.historyId}:${passage.field}:${passage.location}`;
+            passages.set(key, passage);
+            for (const token of new Set(tokenize(passage.text))) {
+                if (!postings.has(token)) postings.set(token, new Set());
+                postings.get(token)!.add(key);
+            }
+            return key;
+        });
+        passageKeysByLecture.set(item.id, keys);
+    };
+
+    /**
+     * Finds passages containing every query term. Terms match as word prefixes, so results appear while
+     * the last word is still being typed. Lectures with the most matching passages come first.
+     */
+    const search = (query: string): SearchResult[] => {
+        const terms = [...new Set(tokenize(query))];
+        if (terms.length === 0) return [];
+
+        let candidates: Set<string> | null = null;
+        for (const term of terms) {
+            const matching = new Set<string>();
+            postings.forEach((keys, token) => {
+                if (token.startsWith(term)) keys.forEach(key => matching.add(key));
+            });
+            candidates = candidates === null ? matching : new Set([...candidates].filter(key => matching.has(key)));
+            if (candidates.size === 0) return [];
+        }
+
+        const resultsByLecture = new Map<number, SearchMatch[]>();
+        for (const key of candidates ?? []) {
+            const passage = passages.get(key)!;
+            if (!resultsByLecture.has(passage.historyId)) resultsByLecture.set(passage.historyId, []);
+            resultsByLecture.get(passage.historyId)!.push({
+                field: passage.field,
+                location: passage.location,
+                snippet: makeSnippet(passage.text, terms),
+            });
+        }
+
+        const fieldOrder: SearchField[] = ['summary', 'glossary', 'detailedNotes', 'transcript'];
+        return [...resultsByLecture.entries()]
+            .map(([historyId, matches]) => ({
+                historyId,
+                matches: matches.sort((a, b) => fieldOrder.indexOf(a.field) - fieldOrder.indexOf(b.field) || a.location - b.location),
+            }))
+            .sort((a, b) => b.matches.length - a.matches.length)
+            .map(result => ({ ...result, matches: result.matches.slice(0, MAX_MATCHES_PER_LECTURE) }));
+    };
+
+    return { add, remove, search, has: (historyId: number) => passageKeysByLecture.has(historyId) };
+};
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
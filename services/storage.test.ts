@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import { HistoryItem } from '../types';
+
+// Every test gets an empty database and a fresh copy of the module, whose open connection is cached.
+// Node clones stored files as plain Blobs, so recordings are checked by their contents rather than their names.
+let storage: typeof import('./storage');
+let localStore: Map<string, string>;
+
+beforeEach(async () => {
+    localStore = new Map();
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.stubGlobal('IDBKeyRange', IDBKeyRange);
+    vi.stubGlobal('localStorage', {
+        getItem: (key: string) => localStore.get(key) ?? null,
+        setItem: (key: string, value: string) => void localStore.set(key, value),
+        removeItem: (key: string) => void localStore.delete(key),
+    });
+    vi.resetModules();
+    storage = await import('./storage');
+});
+
+const lecture = (id: number, overrides: Partial<HistoryItem> = {}): HistoryItem => ({
+    id,
+    filename: `lecture-${id}.mp3`,
+    materials: { summary: 'Summary', keySections: [], formulas: [], glossary: [], examQuestions: [], transcript: 'Transcript', detailedNotes: '' },
+    ...overrides,
+});
+
+/** Opens the database at an older version with that version's stores, for testing upgrades. */
+const createDatabase = (version: number, stores: string[], records: Record<string, unknown>[]) => new Promise<void>((resolve, reject) => {
+    const request = indexedDB.open('classWhisper', version);
+    request.onupgradeneeded = () => {
+        stores.forEach(store => request.result.createObjectStore(store, store === 'media' ? undefined : { keyPath: 'id' }));
+        records.forEach(record => request.transaction!.objectStore('history').put(record));
+    };
+    request.onsuccess = () => {
+        request.result.close();
+        resolve();
+    };
+    request.onerror = () => reject(request.error);
+});
+
+const storeNames = () => new Promise<string[]>((resolve, reject) => {
+    const request = indexedDB.open('classWhisper');
+    request.onsuccess = () => {
+        const names = [...request.result.objectStoreNames];
+        request.result.close();
+        resolve(names);
+    };
+    request.onerror = () => reject(request.error);
+});
+
+describe('migrateHistoryRecord', () => {
+    it('fills in the study guide fields a legacy record is missing', () => {
+        const item = storage.migrateHistoryRecord({ id: 1, filename: 'old.mp3', materials: { summary: 'Old summary', transcript: 'Old transcript' } });
+        expect(item.materials).toEqual({
+            summary: 'Old summary', keySections: [], formulas: [], glossary: [], examQuestions: [], transcript: 'Old transcript', detailedNotes: '',
+        });
+        expect(item).not.toHaveProperty('schemaVersion');
+    });
+
+    it('leaves an up-to-date record as it is', () => {
+        const item = lecture(2, { course: 'Physics' });
+        expect(storage.migrateHistoryRecord({ ...item, schemaVersion: storage.CURRENT_SCHEMA_VERSION })).toEqual(item);
+    });
+
+    it.each([
+        ['not a history item', { title: 'Not a lecture' }],
+        ['without materials', { id: 3, filename: 'x.mp3', materials: 'none' }],
+        ['from a newer version of the app', { ...lecture(4), schemaVersion: 99 }],
+    ])('rejects a record %s as corrupt', (_, raw) => {
+        expect(() => storage.migrateHistoryRecord(raw)).toThrow(expect.objectContaining({ name: 'StorageError', kind: 'corrupt' }));
+    });
+});
+
+describe('history', () => {
+    it('saves, loads newest first and deletes lectures with their recordings', async () => {
+        await storage.saveHistoryItem(lecture(1));
+        await storage.saveHistoryItem(lecture(2));
+        await storage.saveMedia(1, new File(['audio'], 'lecture-1.mp3', { type: 'audio/mpeg' }));
+
+        const { items, warning } = await storage.loadHistory();
+        expect(items.map(item => item.id)).toEqual([2, 1]);
+        expect(warning).toBeNull();
+        expect(await (await storage.loadMedia(1))?.text()).toBe('audio');
+
+        await storage.deleteHistoryItem(1);
+        expect((await storage.loadHistory()).items.map(item => item.id)).toEqual([2]);
+        expect(await storage.loadMedia(1)).toBeUndefined();
+    });
+
+    it('moves legacy localStorage history into the database', async () => {
+        localStore.set('studyHistory', JSON.stringify([{ id: 5, filename: 'old.mp3', materials: { summary: 'Old' } }, 'garbage']));
+
+        const { items, warning } = await storage.loadHistory();
+
+        expect(items.map(item => [item.id, item.materials.keySections])).toEqual([[5, []]]);
+        expect(warning).toMatchObject({ kind: 'corrupt' });
+        expect(localStore.has('studyHistory')).toBe(false);
+        expect(localStore.get('studyHistory.unreadable')).toContain('garbage');
+    });
+
+    it('upgrades a database from an older version, keeping and migrating its records', async () => {
+        await createDatabase(1, ['history', 'media'], [{ id: 7, filename: 'v1.mp3', materials: { summary: 'From version 1' } }]);
+
+        const { items } = await storage.loadHistory();
+
+        expect(items).toHaveLength(1);
+        expect(items[0].materials).toMatchObject({ summary: 'From version 1', glossary: [] });
+        expect(await storeNames()).toEqual(expect.arrayContaining(['history', 'media', 'recordingChunks', 'courseReviews', 'pendingLectures']));
+    });
+});
+
+describe('recording chunks', () => {
+    it('puts each unfinished recording back together in order, and deletes it', async () => {
+        const chunk = (sessionId: number, index: number, text: string) => ({ sessionId, index, mimeType: 'audio/webm', data: new Blob([text]) });
+        await storage.appendRecordingChunk(chunk(100, 1, 'world'));
+        await storage.appendRecordingChunk(chunk(100, 0, 'hello '));
+        await storage.appendRecordingChunk(chunk(200, 0, 'other'));
+
+        const recordings = await storage.loadUnfinishedRecordings();
+        expect(recordings.map(recording => recording.sessionId)).toEqual([100, 200]);
+        expect(await recordings[0].data.text()).toBe('hello world');
+        expect(recordings[0].data.type).toBe('audio/webm');
+
+        await storage.deleteRecording(100);
+        expect((await storage.loadUnfinishedRecordings()).map(recording => recording.sessionId)).toEqual([200]);
+    });
+});
+
+describe('pending lectures', () => {
+    it('keeps queued recordings with their settings until they are deleted', async () => {
+        const file = new File(['audio'], 'queued.mp3', { type: 'audio/mpeg' });
+        await storage.savePendingLecture({ id: 2, file, settings: { course: 'Physics' } });
+        await storage.savePendingLecture({ id: 1, file, settings: { course: 'Chemistry' } });
+
+        const pending = await storage.loadPendingLectures<{ course: string }>();
+        expect(pending.map(({ id, settings }) => [id, settings.course])).toEqual([[1, 'Chemistry'], [2, 'Physics']]);
+        expect(await pending[0].file.text()).toBe('audio');
+
+        await storage.deletePendingLecture(1);
+        expect((await storage.loadPendingLectures()).map(({ id }) => id)).toEqual([2]);
+    });
+
+    it('takes over a live recording, deleting its crash-recovery chunks', async () => {
+        await storage.appendRecordingChunk({ sessionId: 100, index: 0, mimeType: 'audio/webm', data: new Blob(['hello']) });
+        await storage.appendRecordingChunk({ sessionId: 200, index: 0, mimeType: 'audio/webm', data: new Blob(['other']) });
+
+        await storage.savePendingLecture({ id: 3, file: new File(['hello'], 'recording.webm', { type: 'audio/webm' }), settings: {} }, 100);
+
+        expect((await storage.loadPendingLectures()).map(({ id }) => id)).toEqual([3]);
+        expect((await storage.loadUnfinishedRecordings()).map(recording => recording.sessionId)).toEqual([200]);
+    });
+});
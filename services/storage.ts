@@ -0,0 +1,494 @@
+import { CourseReview, HistoryItem } from '../types';
+import { isCourseReview, isRecord } from './validation';
+
+// Study history and the original recordings live in IndexedDB. Two kinds of versioning apply:
+// - DB_UPGRADES changes the database structure (object stores and indexes) when DB_VERSION goes up.
+// - RECORD_MIGRATIONS upgrades individual history records, which carry the schemaVersion they were written with.
+// Entries from the old `studyHistory` localStorage key are treated as schemaVersion 0 and migrated on first load.
+// Live recordings are also written here chunk by chunk while they're made, so they survive a crashed tab.
+// Course review guides are kept in a store of their own; they only refer to history items by id.
+// Recordings queued while offline are kept too, with their generation settings, until they've been processed.
+
+const DB_NAME = 'classWhisper';
+const DB_VERSION = 4;
+const HISTORY_STORE = 'history';
+const MEDIA_STORE = 'media';
+const RECORDING_CHUNKS_STORE = 'recordingChunks';
+const COURSE_REVIEWS_STORE = 'courseReviews';
+const PENDING_LECTURES_STORE = 'pendingLectures';
+
+const LEGACY_HISTORY_KEY = 'studyHistory';
+const LEGACY_HISTORY_BACKUP_KEY = 'studyHistory.unreadable';
+const LEGACY_MEDIA_DB_NAME = 'classWhisperMedia';
+
+export const CURRENT_SCHEMA_VERSION = 1;
+
+// --- ERRORS ---
+
+export type StorageErrorKind = 'quota' | 'unavailable' | 'corrupt' | 'unknown';
+
+export class StorageError extends Error {
+    kind: StorageErrorKind;
+
+    constructor(kind: StorageErrorKind, message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = 'StorageError';
+        this.kind = kind;
+    }
+}
+
+const toStorageError = (err: unknown, action: string): StorageError => {
+    if (err instanceof StorageError) return err;
+    if (err instanceof DOMException && err.name === 'QuotaExceededError') {
+        return new StorageError('quota', `Could not ${action}: your browser's storage is full. Delete some lectures from your history to free up space.`, { cause: err });
+    }
+    if (err instanceof DOMException && (err.name === 'InvalidStateError' || err.name === 'SecurityError')) {
+        return new StorageError('unavailable', `Could not ${action}: browser storage is unavailable. Private browsing mode may be blocking it.`, { cause: err });
+    }
+    return new StorageError('unknown', `Could not ${action}. ${err instanceof Error ? err.message : ''}`.trim(), { cause: err });
+};
+
+
+// --- SCHEMA ---
+
+interface StoredHistoryRecord extends HistoryItem {
+    schemaVersion: number;
+}
+
+// DB_UPGRADES[i] moves the database from version i to version i + 1.
+const DB_UPGRADES: ((db: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+    (db) => {
+        db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+        db.createObjectStore(MEDIA_STORE);
+    },
+    (db) => {
+        db.createObjectStore(RECORDING_CHUNKS_STORE, { keyPath: ['sessionId', 'index'] });
+    },
+    (db) => {
+        db.createObjectStore(COURSE_REVIEWS_STORE, { keyPath: 'id' });
+    },
+    (db) => {
+        db.createObjectStore(PENDING_LECTURES_STORE, { keyPath: 'id' });
+    },
+];
+
+// RECORD_MIGRATIONS[i] moves a record from schemaVersion i to schemaVersion i + 1.
+const RECORD_MIGRATIONS: ((record: Record<string, unknown>) => Record<string, unknown>)[] = [
+    // 0 -> 1: legacy localStorage entries. Fill in any study-guide fields older versions of the app didn't produce.
+    (record) => ({
+        ...record,
+        materials: {
+            summary: '',
+            keySections: [],
+            formulas: [],
+            glossary: [],
+            examQuestions: [],
+            transcript: '',
+            detailedNotes: '',
+            ...(isRecord(record.materials) ? record.materials : {}),
+        },
+    }),
+];
+
+/** Brings a raw record of any schema version up to date. Throws a `corrupt` StorageError if it isn't a history item at all. */
+export const migrateHistoryRecord = (raw: unknown): HistoryItem => {
+    if (!isRecord(raw) || typeof raw.id !== 'number' || typeof raw.filename !== 'string' || !isRecord(raw.materials)) {
+        throw new StorageError('corrupt', 'Found a saved lecture that is not in a recognizable format.');
+    }
+    const version = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+    if (version > CURRENT_SCHEMA_VERSION) {
+        throw new StorageError('corrupt', `"${raw.filename}" was saved by a newer version of Class Whisper.`);
+    }
+    const migrated = RECORD_MIGRATIONS.slice(version).reduce((current, migrate) => migrate(current), raw);
+    const { schemaVersion: _schemaVersion, ...item } = migrated;
+    return item as unknown as HistoryItem; // the migrations leave it in the current shape
+};
+
+const toStoredRecord = (item: HistoryItem): StoredHistoryRecord => ({ ...item, schemaVersion: CURRENT_SCHEMA_VERSION });
+
+
+// --- INDEXEDDB HELPERS ---
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new StorageError('unavailable', 'Browser storage is unavailable, so your study history cannot be saved.'));
+                return;
+            }
+            let isNewDatabase = false;
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => {
+                isNewDatabase = event.oldVersion === 0;
+                for (let version = event.oldVersion; version < DB_VERSION; version++) {
+                    DB_UPGRADES[version](request.result, request.transaction!);
+                }
+            };
+            request.onsuccess = async () => {
+                const db = request.result;
+                // Another tab upgrading the schema needs this connection out of the way.
+                db.onversionchange = () => {
+                    db.close();
+                    dbPromise = null;
+                };
+                if (isNewDatabase) await copyLegacyMedia(db);
+                resolve(db);
+            };
+            request.onerror = () => {
+                dbPromise = null;
+                reject(toStorageError(request.error, 'open your study history'));
+            };
+            request.onblocked = () => console.warn("Study history database upgrade is waiting for other tabs to close.");
+        });
+    }
+    return dbPromise;
+};
+
+// Recordings used to be kept in a database of their own; move them over the first time the new one is created.
+const copyLegacyMedia = (db: IDBDatabase) => new Promise<void>((resolve) => {
+    const request = indexedDB.open(LEGACY_MEDIA_DB_NAME);
+    let existed = true;
+    request.onupgradeneeded = () => {
+        existed = false;
+        request.transaction?.abort();
+    };
+    request.onerror = () => {
+        if (!existed) indexedDB.deleteDatabase(LEGACY_MEDIA_DB_NAME);
+        resolve();
+    };
+    request.onsuccess = async () => {
+        const legacyDb = request.result;
+        try {
+            const store = legacyDb.transaction(MEDIA_STORE, 'readonly').objectStore(MEDIA_STORE);
+            const [keys, files] = await Promise.all([requestToPromise(store.getAllKeys()), requestToPromise(store.getAll())]);
+            const transaction = db.transaction(MEDIA_STORE, 'readwrite');
+            keys.forEach((key, index) => transaction.objectStore(MEDIA_STORE).put(files[index], key));
+            await transactionDone(transaction);
+            legacyDb.close();
+            indexedDB.deleteDatabase(LEGACY_MEDIA_DB_NAME);
+        } catch (err) {
+            console.error("Failed to move recordings from the old media database", err);
+            legacyDb.close();
+        }
+        resolve();
+    };
+});
+
+/**
+ * Moves entries from the old localStorage key into IndexedDB. Unreadable data is never deleted:
+ * it is kept under a backup key and reported, and entries that can be read are still migrated.
+ */
+const migrateLegacyHistory = async (db: IDBDatabase): Promise<StorageError | null> => {
+    const raw = localStorage.getItem(LEGACY_HISTORY_KEY);
+    if (raw === null) return null;
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch (err) {
+        console.error("Failed to parse legacy history from localStorage", err);
+    }
+    if (!Array.isArray(parsed)) {
+        localStorage.removeItem(LEGACY_HISTORY_KEY);
+        localStorage.setItem(LEGACY_HISTORY_BACKUP_KEY, raw);
+        return new StorageError('corrupt', `Your previously saved history could not be read. A copy was kept in this browser's localStorage under "${LEGACY_HISTORY_BACKUP_KEY}".`);
+    }
+
+    let skipped = 0;
+    const items = parsed.flatMap(entry => {
+        try {
+            return [migrateHistoryRecord(entry)];
+        } catch {
+            skipped++;
+            return [];
+        }
+    });
+
+    const transaction = db.transaction(HISTORY_STORE, 'readwrite');
+    items.forEach(item => transaction.objectStore(HISTORY_STORE).put(toStoredRecord(item)));
+    await transactionDone(transaction);
+
+    localStorage.removeItem(LEGACY_HISTORY_KEY);
+    if (skipped > 0) {
+        localStorage.setItem(LEGACY_HISTORY_BACKUP_KEY, raw);
+        return new StorageError('corrupt', `${skipped} saved lecture${skipped === 1 ? '' : 's'} could not be recovered. A copy of the old data was kept in this browser's localStorage under "${LEGACY_HISTORY_BACKUP_KEY}".`);
+    }
+    return null;
+};
+
+
+// --- PUBLIC API ---
+
+export interface LoadHistoryResult {
+    items: HistoryItem[]; // newest first
+    // A non-fatal problem worth telling the user about, e.g. records that could not be read.
+    warning: StorageError | null;
+}
+
+export const loadHistory = async (): Promise<LoadHistoryResult> => {
+    try {
+        const db = await openDb();
+        const migrationWarning = await migrateLegacyHistory(db);
+
+        const records = await requestToPromise(db.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE).getAll());
+        let skipped = 0;
+        const items = records.flatMap(record => {
+            try {
+                return [migrateHistoryRecord(record)];
+            } catch (err) {
+                console.error("Skipping unreadable history record", record, err);
+                skipped++;
+                return [];
+            }
+        }).sort((a, b) => b.id - a.id);
+
+        const warning = migrationWarning ?? (skipped > 0
+            ? new StorageError('corrupt', `${skipped} saved lecture${skipped === 1 ? '' : 's'} could not be read and ${skipped === 1 ? 'is' : 'are'} hidden.`)
+            : null);
+        return { items, warning };
+    } catch (err) {
+        throw toStorageError(err, 'load your study history');
+    }
+};
+
+export const saveHistoryItem = async (item: HistoryItem) => {
+    try {
+        const db = await openDb();
+        const transaction = db.transaction(HISTORY_STORE, 'readwrite');
+        transaction.objectStore(HISTORY_STORE).put(toStoredRecord(item));
+        await transactionDone(transaction);
+    } catch (err) {
+        throw toStorageError(err, `save "${item.filename}"`);
+    }
+};
+
+/** Deletes a history item together with its stored recording. */
+export const deleteHistoryItem = async (id: number) => {
+    try {
+        const db = await openDb();
+        const transaction = db.transaction([HISTORY_STORE, MEDIA_STORE], 'readwrite');
+        transaction.objectStore(HISTORY_STORE).delete(id);
+        transaction.objectStore(MEDIA_STORE).delete(id);
+        await transactionDone(transaction);
+    } catch (err) {
+        throw toStorageError(err, 'delete the lecture');
+    }
+};
+
+export interface ImportedLecture {
+    item: HistoryItem;
+    media?: File;
+}
+
+/**
+ * Writes lectures from a library backup in a single transaction, so a failed import leaves the library as it was.
+ * With `replace`, every lecture and recording stored before is deleted first.
+ */
+export const importHistoryItems = async (lectures: ImportedLecture[], { replace }: { replace: boolean }) => {
+    try {
+        const db = await openDb();
+        const transaction = db.transaction([HISTORY_STORE, MEDIA_STORE], 'readwrite');
+        const historyStore = transaction.objectStore(HISTORY_STORE);
+        const mediaStore = transaction.objectStore(MEDIA_STORE);
+        if (replace) {
+            historyStore.clear();
+            mediaStore.clear();
+        }
+        lectures.forEach(({ item, media }) => {
+            historyStore.put(toStoredRecord(item));
+            if (media) mediaStore.put(media, item.id);
+        });
+        await transactionDone(transaction);
+    } catch (err) {
+        throw toStorageError(err, 'import the library');
+    }
+};
+
+export const saveMedia = async (id: number, file: File) => {
+    try {
+        const db = await openDb();
+        const transaction = db.transaction(MEDIA_STORE, 'readwrite');
+        transaction.objectStore(MEDIA_STORE).put(file, id);
+        await transactionDone(transaction);
+    } catch (err) {
+        throw toStorageError(err, `store the recording "${file.name}"`);
+    }
+};
+
+export const loadMedia = async (id: number): Promise<File | undefined> => {
+    try {
+        const db = await openDb();
+        return await requestToPromise<File | undefined>(db.transaction(MEDIA_STORE, 'readonly').objectStore(MEDIA_STORE).get(id));
+    } catch (err) {
+        throw toStorageError(err, 'load the recording');
+    }
+};
+
+export interface RecordingChunk {
+    sessionId: number; // when the recording started
+    index: number;
+    mimeType: string;
+    data: Blob;
+}
+
+export interface UnfinishedRecording {
+    sessionId: number;
+    data: Blob;
+}
+
+export const appendRecordingChunk = async (chunk: RecordingChunk) => {
+    try {
+        const db = await openDb();
+        const transaction = db.transaction(RECORDING_CHUNKS_STORE, 'readwrite');
+        transaction.objectStore(RECORDING_CHUNKS_STORE).put(chunk);
+        await transactionDone(transaction);
+    } catch (err) {
+        throw toStorageError(err, 'save the recording in progress');
+    }
+};
+
+/** Recordings whose chunks were never cleaned up, i.e. the tab was closed or crashed before the lecture was saved. */
+export const loadUnfinishedRecordings = async (): Promise<UnfinishedRecording[]> => {
+    try {
+        const db = await openDb();
+        const chunks = await requestToPromise<RecordingChunk[]>(
+            db.transaction(RECORDING_CHUNKS_STORE, 'readonly').objectStore(RECORDING_CHUNKS_STORE).getAll());
+        const bySession = new Map<number, RecordingChunk[]>();
+        chunks.forEach(chunk => bySession.set(chunk.sessionId, [...(bySession.get(chunk.sessionId) ?? []), chunk]));
+        // getAll returns records in key order, so each session's chunks are already in recording order.
+        return [...bySession.entries()].map(([sessionId, sessionChunks]) => ({
+            sessionId,
+            data: new Blob(sessionChunks.map(chunk => chunk.data), { type: sessionChunks[0].mimeType }),
+        }));
+    } catch (err) {
+        throw toStorageError(err, 'check for interrupted recordings');
+    }
+};
+
+export const deleteRecording = async (sessionId: number) => {
+    try {
+        const db = await openDb();
+        const transaction = db.transaction(RECORDING_CHUNKS_STORE, 'readwrite');
+        transaction.objectStore(RECORDING_CHUNKS_STORE).delete(IDBKeyRange.bound([sessionId, 0], [sessionId, Infinity]));
+        await transactionDone(transaction);
+    } catch (err) {
+        throw toStorageError(err, 'delete the recovered recording');
+    }
+};
+
+
+// --- PENDING LECTURES ---
+
+export interface PendingLecture<T> {
+    id: number; // when it was queued
+    file: File;
+    settings: T;
+}
+
+/** Recordings that were queued but not yet turned into study guides, oldest first. */
+export const loadPendingLectures = async <T>(): Promise<PendingLecture<T>[]> => {
+    try {
+        const db = await openDb();
+        return await requestToPromise<PendingLecture<T>[]>(db.transaction(PENDING_LECTURES_STORE, 'readonly').objectStore(PENDING_LECTURES_STORE).getAll());
+    } catch (err) {
+        throw toStorageError(err, 'load the recordings waiting to be processed');
+    }
+};
+
+/**
+ * A live recording moves here from its crash-recovery chunks (`recordingSessionId`) in the same transaction, so
+ * it's never kept as both, and offered for processing twice.
+ */
+export const savePendingLecture = async <T>(lecture: PendingLecture<T>, recordingSessionId?: number) => {
+    try {
+        const db = await openDb();
+        const transaction = db.transaction([PENDING_LECTURES_STORE, RECORDING_CHUNKS_STORE], 'readwrite');
+        transaction.objectStore(PENDING_LECTURES_STORE).put(lecture);
+        if (recordingSessionId !== undefined) {
+            transaction.objectStore(RECORDING_CHUNKS_STORE).delete(IDBKeyRange.bound([recordingSessionId, 0], [recordingSessionId, Infinity]));
+        }
+        await transactionDone(transaction);
+    } catch (err) {
+        throw toStorageError(err, `keep "${lecture.file.name}" until you're back online`);
+    }
+};
+
+export const deletePendingLecture = async (id: number) => {
+    try {
+        const db = await openDb();
+        const transaction = db.transaction(PENDING_LECTURES_STORE, 'readwrite');
+        transaction.objectStore(PENDING_LECTURES_STORE).delete(id);
+        await transactionDone(transaction);
+    } catch (err) {
+        throw toStorageError(err, 'remove a processed recording from the queue');
+    }
+};
+
+
+// --- COURSE REVIEWS ---
+
+/** Saved course review guides, newest first. Unreadable ones are skipped. */
+export const loadCourseReviews = async (): Promise<CourseReview[]> => {
+    try {
+        const db = await openDb();
+        const records = await requestToPromise(db.transaction(COURSE_REVIEWS_STORE, 'readonly').objectStore(COURSE_REVIEWS_STORE).getAll());
+        return records.filter(record => {
+            if (isCourseReview(record)) return true;
+            console.error("Skipping unreadable course review", record);
+            return false;
+        }).sort((a, b) => b.id - a.id);
+    } catch (err) {
+        throw toStorageError(err, 'load your review guides');
+    }
+};
+
+export const saveCourseReview = async (review: CourseReview) => {
+    try {
+        const db = await openDb();
+        const transaction = db.transaction(COURSE_REVIEWS_STORE, 'readwrite');
+        transaction.objectStore(COURSE_REVIEWS_STORE).put(review);
+        await transactionDone(transaction);
+    } catch (err) {
+        throw toStorageError(err, `save the review guide "${review.title}"`);
+    }
+};
+
+export const deleteCourseReview = async (id: number) => {
+    try {
+        const db = await openDb();
+        const transaction = db.transaction(COURSE_REVIEWS_STORE, 'readwrite');
+        transaction.objectStore(COURSE_REVIEWS_STORE).delete(id);
+        await transactionDone(transaction);
+    } catch (err) {
+        throw toStorageError(err, 'delete the review guide');
+    }
+};
+
+export interface StorageUsage {
+    usage: number; // bytes
+    quota: number;
+}
+
+/** How much of the origin's storage quota is in use, when the browser can tell. */
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+    if (!navigator.storage?.estimate) return null;
+    try {
+        const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+        return quota > 0 ? { usage, quota } : null;
+    } catch {
+        return null;
+    }
+};
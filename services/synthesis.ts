@@ -0,0 +1,166 @@
+import { ConceptLink, ConceptNode, CourseReview, HistoryItem } from '../types';
+import { formulaKey, generateJson, JsonSchema, LLMProvider } from './pipeline';
+import { PipelineError } from './errors';
+import { isRecord } from './validation';
+
+// Course review guides combine several saved lectures. The glossary and formulas are merged here, so
+// nothing from any lecture can be dropped. The model only sees each lecture's study guide (never the
+// transcripts), and writes the parts that need an understanding of the whole course: the overview, the
+// concept map and a cumulative set of exam questions.
+
+const MIN_CONCEPTS = 8;
+const MAX_CONCEPTS = 30;
+
+interface Synthesis {
+    summary: string;
+    concepts: ConceptNode[];
+    links: ConceptLink[];
+    examQuestions: CourseReview['examQuestions'];
+}
+
+const lectureTitle = (item: HistoryItem) => item.title || item.filename;
+
+// --- MERGING ---
+
+/** "Newton's Laws (of motion)" and "newtons laws" are the same term. */
+const termKey = (term: string) =>
+    term.toLowerCase().replace(/\(.*?\)/g, '').replace(/['’]/g, '').replace(/[^\p{L}\p{N}]+/gu, ' ').replace(/s\b/g, '').trim();
+
+/** Every lecture's glossary as one, with each term once. When lectures define a term differently, the fullest definition is kept. */
+export const mergeGlossaries = (lectures: HistoryItem[]): CourseReview['glossary'] => {
+    const merged = new Map<string, CourseReview['glossary'][number]>();
+    for (const lecture of lectures) {
+        for (const { term, definition } of lecture.materials.glossary) {
+            const key = termKey(term);
+            const existing = merged.get(key);
+            if (!existing) {
+                merged.set(key, { term, definition, lectureIds: [lecture.id] });
+                continue;
+            }
+            if (!existing.lectureIds.includes(lecture.id)) existing.lectureIds.push(lecture.id);
+            if (definition.length > existing.definition.length) existing.definition = definition;
+        }
+    }
+    return [...merged.values()].sort((a, b) => a.term.localeCompare(b.term));
+};
+
+/** Every lecture's formulas, each once, in the order they were first introduced. */
+export const mergeFormulas = (lectures: HistoryItem[]): CourseReview['formulas'] => {
+    const merged = new Map<string, CourseReview['formulas'][number]>();
+    for (const lecture of lectures) {
+        for (const latex of lecture.materials.formulas) {
+            const existing = merged.get(formulaKey(latex));
+            if (!existing) {
+                merged.set(formulaKey(latex), { latex, lectureIds: [lecture.id] });
+            } else if (!existing.lectureIds.includes(lecture.id)) {
+                existing.lectureIds.push(lecture.id);
+            }
+        }
+    }
+    return [...merged.values()];
+};
+
+
+// --- PROMPT ---
+
+const courseReviewSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        summary: { type: 'string' },
+        concepts: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: { id: { type: 'string' }, label: { type: 'string' }, lectures: { type: 'array', items: { type: 'integer' } } },
+                propertyOrdering: ["id", "label", "lectures"],
+            },
+        },
+        links: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: { source: { type: 'string' }, target: { type: 'string' }, relation: { type: 'string' } },
+                propertyOrdering: ["source", "target", "relation"],
+            },
+        },
+        examQuestions: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: { question: { type: 'string' }, topic: { type: 'string' }, lectures: { type: 'array', items: { type: 'integer' } } },
+                propertyOrdering: ["question", "topic", "lectures"],
+            },
+        },
+    },
+    propertyOrdering: ["summary", "concepts", "links", "examQuestions"],
+};
+
+const lectureToText = (lecture: HistoryItem, number: number) => [
+    `Lecture ${number}: ${lectureTitle(lecture)}${lecture.lectureDate ? ` (${lecture.lectureDate})` : ''}`,
+    `Summary: ${lecture.materials.summary}`,
+    lecture.materials.keySections.length > 0 ? `Key topics: ${lecture.materials.keySections.join('; ')}` : '',
+    lecture.materials.glossary.length > 0 ? `Terms: ${lecture.materials.glossary.map(item => item.term).join(', ')}` : '',
+    lecture.materials.examQuestions.length > 0 ? `Exam questions: ${lecture.materials.examQuestions.join(' | ')}` : '',
+].filter(Boolean).join('\n');
+
+export const buildCourseReviewPrompt = (lectures: HistoryItem[]) =>
+    `Here are the study guides of ${lectures.length} lectures from the same course, numbered in order. Write a combined review guide for a student preparing for an exam on all of them, in the language the study guides are written in. The output must be a single, valid JSON object with these fields:\n1. "summary": an overview of the course so far in a few paragraphs, showing how the lectures build on each other.\n2. "concepts": the ${MIN_CONCEPTS}-${MAX_CONCEPTS} most important concepts across the lectures, each with a short unique "id", a "label" of a few words, and "lectures", the numbers of the lectures that cover it.\n3. "links": how the concepts connect, each with the "source" and "target" concept ids and a short "relation" that reads as source-relation-target, for example "is a special case of". Link concepts from different lectures wherever they build on each other.\n4. "examQuestions": a cumulative set of 10-15 exam questions covering the whole course, including questions that combine ideas from several lectures. Each has the "question", the "topic" it tests, and "lectures", the numbers of the lectures the topic comes from.\n\n${lectures.map((lecture, index) => lectureToText(lecture, index + 1)).join('\n\n')}`;
+
+
+// --- VALIDATION ---
+
+/** Checks the model's reply and turns its lecture numbers into history ids, dropping anything that doesn't fit together. */
+export const validateSynthesis = (lectures: HistoryItem[]) => (value: unknown): Synthesis => {
+    if (!isRecord(value) || typeof value.summary !== 'string' || !value.summary.trim() || !Array.isArray(value.concepts)) {
+        throw new PipelineError('invalidResponse', "The review guide from the AI was incomplete. Please try again.");
+    }
+    const toLectureIds = (numbers: unknown) => Array.isArray(numbers)
+        ? [...new Set(numbers.map(Number).filter(number => Number.isInteger(number) && number >= 1 && number <= lectures.length))].map(number => lectures[number - 1].id)
+        : [];
+
+    const concepts: ConceptNode[] = [];
+    for (const concept of value.concepts) {
+        if (!isRecord(concept) || typeof concept.label !== 'string' || !concept.label.trim()) continue;
+        const id = typeof concept.id === 'string' && concept.id.trim() ? concept.id.trim() : concept.label.trim();
+        if (concepts.some(existing => existing.id === id)) continue;
+        concepts.push({ id, label: concept.label.trim(), lectureIds: toLectureIds(concept.lectures) });
+    }
+    if (concepts.length === 0) throw new PipelineError('invalidResponse', "The review guide from the AI had no concepts. Please try again.");
+
+    const conceptIds = new Set(concepts.map(concept => concept.id));
+    const links = (Array.isArray(value.links) ? value.links : []).flatMap((link): ConceptLink[] => {
+        if (!isRecord(link) || typeof link.source !== 'string' || typeof link.target !== 'string') return [];
+        const [source, target] = [link.source.trim(), link.target.trim()];
+        return source !== target && conceptIds.has(source) && conceptIds.has(target)
+            ? [{ source, target, relation: typeof link.relation === 'string' ? link.relation.trim() : '' }]
+            : [];
+    });
+
+    const examQuestions = (Array.isArray(value.examQuestions) ? value.examQuestions : []).flatMap(question =>
+        isRecord(question) && typeof question.question === 'string' && question.question.trim()
+            ? [{
+                question: question.question.trim(),
+                topic: typeof question.topic === 'string' ? question.topic.trim() : '',
+                lectureIds: toLectureIds(question.lectures),
+            }]
+            : []);
+
+    return { summary: value.summary.trim(), concepts, links, examQuestions };
+};
+
+
+// --- GENERATION ---
+
+/** Builds a review guide from two or more lectures, in the order given. */
+export const generateCourseReview = async (llm: LLMProvider, lectures: HistoryItem[], title: string): Promise<CourseReview> => {
+    if (lectures.length < 2) throw new PipelineError('unknown', "Select at least two lectures to combine into a review guide.");
+    const synthesis = await generateJson(llm, { prompt: buildCourseReviewPrompt(lectures), responseSchema: courseReviewSchema }, 'review guide', validateSynthesis(lectures));
+    return {
+        id: Date.now(),
+        title,
+        lectures: lectures.map(lecture => ({ id: lecture.id, title: lectureTitle(lecture) })),
+        glossary: mergeGlossaries(lectures),
+        formulas: mergeFormulas(lectures),
+        ...synthesis,
+    };
+};
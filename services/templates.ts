@@ -0,0 +1,163 @@
+import { HistoryItem, StudyGuideTemplate, TemplateSection } from '../types';
+import { DEFAULT_MODEL } from './geminiProvider';
+import { isRecord } from './validation';
+
+// Study guide templates: which sections to generate and how. A few are built in for common kinds of course;
+// students can save their own, which are kept in localStorage like other per-browser preferences. Each
+// history item keeps a copy of the template it was generated with, so it can be regenerated the same way
+// later even if that template has since been changed or deleted.
+
+const SAVED_TEMPLATES_KEY = 'studyGuideTemplates';
+const SELECTED_TEMPLATE_KEY = 'studyGuideTemplates.selected';
+
+export const MAX_QUESTION_COUNT = 20;
+
+export const TEMPLATE_SECTIONS: { section: TemplateSection, label: string }[] = [
+    { section: 'keySections', label: 'Key Topics' },
+    { section: 'formulas', label: 'Formulas' },
+    { section: 'glossary', label: 'Glossary' },
+    { section: 'examQuestions', label: 'Exam Questions' },
+    { section: 'quiz', label: 'Practice Quiz' },
+    { section: 'detailedNotes', label: 'Detailed Notes' },
+    { section: 'slides', label: 'Slides & Whiteboard (videos)' },
+];
+
+export const DIFFICULTY_LABELS: Record<StudyGuideTemplate['difficulty'], string> = {
+    introductory: 'Introductory',
+    standard: 'Standard',
+    challenging: 'Challenging',
+};
+
+export const NOTES_LENGTH_LABELS: Record<StudyGuideTemplate['notesLength'], string> = {
+    brief: 'Brief',
+    standard: 'Standard',
+    comprehensive: 'Comprehensive',
+};
+
+export const NOTES_STYLE_LABELS: Record<StudyGuideTemplate['notesStyle'], string> = {
+    standard: 'Headings & bullets',
+    cornell: 'Cornell',
+    outline: 'Outline',
+    qa: 'Q&A',
+};
+
+export const DEFAULT_TEMPLATE: StudyGuideTemplate = {
+    id: 'default',
+    name: 'Standard',
+    sections: TEMPLATE_SECTIONS.map(({ section }) => section),
+    examQuestionCount: 5,
+    quizQuestionCount: 5,
+    difficulty: 'standard',
+    notesLength: 'standard',
+    notesStyle: 'standard',
+    customInstructions: '',
+    model: DEFAULT_MODEL,
+};
+
+export const BUILT_IN_TEMPLATES: StudyGuideTemplate[] = [
+    DEFAULT_TEMPLATE,
+    {
+        ...DEFAULT_TEMPLATE,
+        id: 'proofs',
+        name: 'Math & proofs',
+        examQuestionCount: 6,
+        quizQuestionCount: 6,
+        difficulty: 'challenging',
+        notesLength: 'comprehensive',
+        notesStyle: 'outline',
+        customInstructions: 'State every definition, theorem and lemma precisely, and write out each proof or derivation step by step, explaining the idea behind each step.',
+    },
+    {
+        ...DEFAULT_TEMPLATE,
+        id: 'seminar',
+        name: 'Humanities seminar',
+        sections: ['keySections', 'glossary', 'examQuestions', 'detailedNotes', 'slides'],
+        examQuestionCount: 4,
+        notesStyle: 'cornell',
+        customInstructions: 'Focus on the arguments and interpretations discussed: who holds each position, the evidence given for it, and the people, dates and sources mentioned. Write the exam questions as essay prompts.',
+    },
+    {
+        ...DEFAULT_TEMPLATE,
+        id: 'review',
+        name: 'Quick review',
+        sections: ['keySections', 'glossary', 'quiz'],
+        quizQuestionCount: 8,
+        difficulty: 'introductory',
+        notesLength: 'brief',
+    },
+];
+
+export const isBuiltInTemplate = (id: string) => BUILT_IN_TEMPLATES.some(template => template.id === id);
+
+const clampCount = (value: unknown, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(MAX_QUESTION_COUNT, Math.max(1, Math.round(value))) : fallback;
+
+const pickOption = <T extends string>(value: unknown, labels: Record<T, string>, fallback: T): T =>
+    typeof value === 'string' && value in labels ? value as T : fallback;
+
+/** Reads a template from storage or an imported backup, falling back to the defaults for anything missing or invalid. */
+export const normalizeTemplate = (raw: Record<string, unknown>): StudyGuideTemplate => ({
+    id: typeof raw.id === 'string' && raw.id ? raw.id : `saved-${Date.now()}`,
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : 'Untitled template',
+    sections: Array.isArray(raw.sections)
+        ? TEMPLATE_SECTIONS.map(({ section }) => section).filter(section => (raw.sections as unknown[]).includes(section))
+        : DEFAULT_TEMPLATE.sections,
+    examQuestionCount: clampCount(raw.examQuestionCount, DEFAULT_TEMPLATE.examQuestionCount),
+    quizQuestionCount: clampCount(raw.quizQuestionCount, DEFAULT_TEMPLATE.quizQuestionCount),
+    difficulty: pickOption(raw.difficulty, DIFFICULTY_LABELS, DEFAULT_TEMPLATE.difficulty),
+    notesLength: pickOption(raw.notesLength, NOTES_LENGTH_LABELS, DEFAULT_TEMPLATE.notesLength),
+    notesStyle: pickOption(raw.notesStyle, NOTES_STYLE_LABELS, DEFAULT_TEMPLATE.notesStyle),
+    customInstructions: typeof raw.customInstructions === 'string' ? raw.customInstructions : '',
+    model: typeof raw.model === 'string' && raw.model ? raw.model : DEFAULT_MODEL,
+});
+
+/** The template a lecture was generated with. Lectures from before templates were added used the defaults. */
+export const templateFor = (item: HistoryItem | undefined) => item?.template ?? DEFAULT_TEMPLATE;
+
+export const hasSection = (template: StudyGuideTemplate, section: TemplateSection) => template.sections.includes(section);
+
+/** Whether two templates would generate the same study guide, ignoring their names. */
+export const isSameSettings = (a: StudyGuideTemplate, b: StudyGuideTemplate) =>
+    JSON.stringify({ ...a, id: '', name: '' }) === JSON.stringify({ ...b, id: '', name: '' });
+
+
+// --- PERSISTENCE ---
+// Preferences are a convenience: if localStorage is unavailable or holds something unreadable, the built-in
+// templates still work.
+
+export const loadSavedTemplates = (): StudyGuideTemplate[] => {
+    try {
+        const parsed: unknown = JSON.parse(localStorage.getItem(SAVED_TEMPLATES_KEY) ?? '[]');
+        return Array.isArray(parsed) ? parsed.filter(isRecord).map(normalizeTemplate) : [];
+    } catch (err) {
+        console.error("Failed to load saved study guide templates", err);
+        return [];
+    }
+};
+
+export const storeSavedTemplates = (templates: StudyGuideTemplate[]) => {
+    try {
+        localStorage.setItem(SAVED_TEMPLATES_KEY, JSON.stringify(templates));
+    } catch (err) {
+        console.error("Failed to save study guide templates", err);
+    }
+};
+
+/** The settings used for the last lecture, so the next one starts from the same place. */
+export const loadSelectedTemplate = (): StudyGuideTemplate => {
+    try {
+        const parsed: unknown = JSON.parse(localStorage.getItem(SELECTED_TEMPLATE_KEY) ?? 'null');
+        return isRecord(parsed) ? normalizeTemplate(parsed) : DEFAULT_TEMPLATE;
+    } catch (err) {
+        console.error("Failed to load the selected study guide template", err);
+        return DEFAULT_TEMPLATE;
+    }
+};
+
+export const storeSelectedTemplate = (template: StudyGuideTemplate) => {
+    try {
+        localStorage.setItem(SELECTED_TEMPLATE_KEY, JSON.stringify(template));
+    } catch (err) {
+        console.error("Failed to remember the selected study guide template", err);
+    }
+};
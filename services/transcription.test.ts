@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FileState, GenerateContentParameters, GoogleGenAI } from '@google/genai';
+import { CHUNK_OVERLAP_SECONDS, CHUNK_SECONDS, INLINE_SIZE_LIMIT, planChunks, stitchChunks, transcribeMedia } from './transcription';
+import { TranscriptSegment } from '../types';
+
+// Big enough to go through the Files API, which is what chunked transcription uses.
+const recording = new File([new Uint8Array(INLINE_SIZE_LIMIT + 1)], 'lecture.mp3', { type: 'audio/mpeg' });
+
+/** The start of the chunk a request asks for, in seconds; 0 for a single-chunk request. */
+const chunkStartOf = (request: GenerateContentParameters) => {
+    const match = JSON.stringify(request.contents).match(/from (\d+):(\d\d) to/);
+    return match ? Number(match[1]) * 60 + Number(match[2]) : 0;
+};
+
+const reply = (segments: TranscriptSegment[]) => ({ text: JSON.stringify(segments), candidates: [{ finishReason: 'STOP' }] });
+
+/** A GoogleGenAI client whose chunk requests are answered by `answer`, recording what happened in `events`. */
+const createMockClient = (answer: (chunkStart: number, signal?: AbortSignal) => Promise<TranscriptSegment[]>) => {
+    const events: string[] = [];
+    const client = {
+        files: {
+            upload: vi.fn(async () => ({ name: 'files/lecture', state: FileState.ACTIVE, uri: 'https://example.com/files/lecture', mimeType: 'audio/mpeg' })),
+            get: vi.fn(),
+            delete: vi.fn(async () => {
+                events.push('delete');
+                return {};
+            }),
+        },
+        models: {
+            generateContent: vi.fn(async (request: GenerateContentParameters) => {
+                const start = chunkStartOf(request);
+                events.push(`start ${start}`);
+                try {
+                    return reply(await answer(start, request.config?.abortSignal));
+                } finally {
+                    events.push(`settle ${start}`);
+                }
+            }),
+        },
+    };
+    return { ai: client as unknown as GoogleGenAI, client, events };
+};
+
+const never = (signal?: AbortSignal) => new Promise<never>((_, reject) => {
+    signal?.addEventListener('abort', () => reject(signal.reason), { once: true });
+});
+
+describe('planChunks', () => {
+    it('keeps a short recording in one chunk', () => {
+        expect(planChunks(5 * 60)).toEqual([{ index: 0, start: 0, end: 5 * 60 }]);
+        expect(planChunks(0)).toEqual([{ index: 0, start: 0, end: Infinity }]);
+    });
+
+    it('splits a long recording into overlapping chunks', () => {
+        expect(planChunks(25 * 60)).toEqual([
+            { index: 0, start: 0, end: CHUNK_SECONDS + CHUNK_OVERLAP_SECONDS },
+            { index: 1, start: CHUNK_SECONDS - CHUNK_OVERLAP_SECONDS, end: 2 * CHUNK_SECONDS + CHUNK_OVERLAP_SECONDS },
+            { index: 2, start: 2 * CHUNK_SECONDS - CHUNK_OVERLAP_SECONDS, end: 25 * 60 },
+        ]);
+    });
+});
+
+describe('stitchChunks', () => {
+    it('keeps each stretch of the overlap from one chunk and drops lines repeated across the boundary', () => {
+        const chunks = planChunks(15 * 60, 10 * 60, 30);
+        const stitched = stitchChunks(chunks, [
+            [{ start: 590, end: 595, speaker: 'Instructor', text: 'Before the cut.' }, { start: 598, end: 605, speaker: 'Instructor', text: 'On the boundary.' }],
+            [{ start: 601, end: 604, speaker: 'Instructor', text: 'On the boundary!' }, { start: 610, end: 615, speaker: 'Instructor', text: 'After the cut.' }],
+        ]);
+        expect(stitched.map(segment => [segment.start, segment.text])).toEqual([
+            [590, 'Before the cut.'],
+            [598, 'On the boundary.'],
+            [610, 'After the cut.'],
+        ]);
+    });
+});
+
+describe('transcribeMedia', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('transcribes every chunk and stitches them together in recording order', async () => {
+        const { ai, client } = createMockClient(async start => [
+            { start: start + 20, end: start + 25, speaker: 'Instructor', text: `Starting at ${start + 20}.` },
+        ]);
+        const progress: number[] = [];
+
+        const segments = await transcribeMedia(ai, recording, { duration: 25 * 60, onProgress: ({ stage, completedChunks }) => stage === 'transcribing' && progress.push(completedChunks) });
+
+        expect(client.models.generateContent).toHaveBeenCalledTimes(3);
+        expect(segments.map(segment => segment.start)).toEqual([20, 20 + CHUNK_SECONDS - CHUNK_OVERLAP_SECONDS, 20 + 2 * CHUNK_SECONDS - CHUNK_OVERLAP_SECONDS]);
+        expect(progress).toEqual([0, 1, 2, 3]);
+        expect(client.files.delete).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops the other chunks when one fails, and only deletes the upload once they have all settled', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const failure = Object.assign(new Error('Bad request'), { status: 400 });
+        const { ai, client, events } = createMockClient((start, signal) => start === 0 ? Promise.reject(failure) : never(signal));
+
+        await expect(transcribeMedia(ai, recording, { duration: 45 * 60 })).rejects.toMatchObject({ message: 'Bad request' });
+
+        // Three of the five chunks were started together; the last two never were.
+        expect(client.models.generateContent).toHaveBeenCalledTimes(3);
+        expect(events.at(-1)).toBe('delete');
+        expect(events.filter(event => event.startsWith('settle'))).toHaveLength(3);
+    });
+
+    it('deletes the upload when the Files API fails to process it', async () => {
+        const { ai, client } = createMockClient(async () => []);
+        client.files.upload.mockResolvedValueOnce({ name: 'files/lecture', state: FileState.FAILED, uri: '', mimeType: 'audio/mpeg' });
+
+        await expect(transcribeMedia(ai, recording, { duration: 25 * 60 })).rejects.toMatchObject({ name: 'PipelineError', kind: 'badMedia' });
+        expect(client.files.delete).toHaveBeenCalledTimes(1);
+        expect(client.models.generateContent).not.toHaveBeenCalled();
+    });
+
+    it('deletes the upload when the transcription is cancelled', async () => {
+        const controller = new AbortController();
+        const { ai, client } = createMockClient((_, signal) => never(signal));
+
+        const transcription = transcribeMedia(ai, recording, { duration: 25 * 60, signal: controller.signal });
+        await vi.waitFor(() => expect(client.models.generateContent).toHaveBeenCalledTimes(3));
+        controller.abort(new DOMException('Cancelled', 'AbortError'));
+
+        await expect(transcription).rejects.toMatchObject({ name: 'AbortError' });
+        expect(client.files.delete).toHaveBeenCalledTimes(1);
+    });
+});
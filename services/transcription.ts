@@ -0,0 +1,277 @@
+import { GoogleGenAI, Type, FileState, FinishReason, GenerateContentResponse, Part, createPartFromUri } from '@google/genai';
+import { TranscriptSegment } from '../types';
+import { delay, PipelineError, withRetry } from './errors';
+import { TranscribeOptions, TranscriptionProgress } from './pipeline';
+
+// --- CONFIGURATION ---
+const TRANSCRIPTION_MODEL = "gemini-2.5-flash";
+
+// Inline requests are capped at 20 MB (base64 included), so anything bigger goes through the Files API.
+export const INLINE_SIZE_LIMIT = 14 * 1024 * 1024;
+export const CHUNK_SECONDS = 10 * 60;
+export const CHUNK_OVERLAP_SECONDS = 15;
+const MAX_PARALLEL_CHUNKS = 3;
+const FILE_POLL_INTERVAL_MS = 2000;
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [FinishReason.SAFETY, FinishReason.BLOCKLIST, FinishReason.PROHIBITED_CONTENT, FinishReason.SPII];
+
+// --- INTERFACES ---
+export interface TimeChunk {
+  index: number;
+  start: number; // seconds
+  end: number;
+}
+
+interface PreparedMedia {
+  part: Part;
+  cleanup: () => Promise<void>;
+}
+
+const transcriptSchema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            start: { type: Type.NUMBER },
+            end: { type: Type.NUMBER },
+            speaker: { type: Type.STRING },
+            text: { type: Type.STRING },
+        },
+        propertyOrdering: ["start", "end", "speaker", "text"],
+    },
+};
+
+
+// --- HELPERS ---
+
+const formatOffset = (seconds: number) => {
+    const m = Math.floor(seconds / 60);
+    const s = Math.floor(seconds % 60);
+    return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+/**
+ * The text of a Gemini reply. Throws a `safety` PipelineError when the model refused, and a `tooLarge` one when
+ * a structured reply was cut off at the output limit (a truncated plain-text reply is still usable).
+ */
+export const readResponseText = (result: GenerateContentResponse, { structured = false } = {}) => {
+    const finishReason = result.candidates?.[0]?.finishReason;
+    if (result.promptFeedback?.blockReason || BLOCKED_FINISH_REASONS.includes(finishReason)) {
+        throw new PipelineError('safety');
+    }
+    if (structured && finishReason === FinishReason.MAX_TOKENS) {
+        throw new PipelineError('tooLarge', "The AI's response was cut off because this lecture is too long for a single request. Try a shorter recording.");
+    }
+    return result.text ?? '';
+};
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/[^a-z0-9 ]/g, '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Reads the duration of a recording from its metadata. Resolves to 0 when the browser can't tell,
+ * in which case the whole recording is transcribed in a single request.
+ */
+export const getMediaDuration = (file: File) => new Promise<number>((resolve) => {
+    const url = URL.createObjectURL(file);
+    const media = document.createElement(file.type.startsWith('video/') ? 'video' : 'audio');
+    const finish = (duration: number) => {
+        URL.revokeObjectURL(url);
+        resolve(Number.isFinite(duration) ? duration : 0);
+    };
+    media.preload = 'metadata';
+    media.onloadedmetadata = () => finish(media.duration);
+    media.onerror = () => finish(0);
+    media.src = url;
+});
+
+/** Splits a recording into overlapping time windows. */
+export const planChunks = (duration: number, chunkSeconds = CHUNK_SECONDS, overlapSeconds = CHUNK_OVERLAP_SECONDS): TimeChunk[] => {
+    if (!(duration > chunkSeconds)) {
+        return [{ index: 0, start: 0, end: duration > 0 ? duration : Infinity }];
+    }
+    const chunks: TimeChunk[] = [];
+    for (let start = 0; start < duration; start += chunkSeconds) {
+        chunks.push({
+            index: chunks.length,
+            start: Math.max(0, start - (start > 0 ? overlapSeconds : 0)),
+            end: Math.min(duration, start + chunkSeconds + overlapSeconds),
+        });
+    }
+    return chunks;
+};
+
+/**
+ * Joins per-chunk transcripts back into one. Overlapping regions are split at their midpoint so each
+ * stretch of audio is kept from exactly one chunk, then repeated lines straddling a boundary are dropped.
+ */
+export const stitchChunks = (chunks: TimeChunk[], results: TranscriptSegment[][]): TranscriptSegment[] => {
+    const stitched: TranscriptSegment[] = [];
+    chunks.forEach((chunk, i) => {
+        const lowerCut = i === 0 ? -Infinity : (chunk.start + chunks[i - 1].end) / 2;
+        const upperCut = i === chunks.length - 1 ? Infinity : (chunks[i + 1].start + chunk.end) / 2;
+        const kept = (results[i] ?? [])
+            .filter(segment => segment.start >= lowerCut && segment.start < upperCut)
+            .sort((a, b) => a.start - b.start);
+
+        for (const segment of kept) {
+            const previous = stitched[stitched.length - 1];
+            if (previous && normalizeText(previous.text) === normalizeText(segment.text)) {
+                previous.end = Math.max(previous.end, segment.end);
+                continue;
+            }
+            stitched.push({ ...segment });
+        }
+    });
+    return stitched;
+};
+
+export const parseSegments = (text: string | undefined): TranscriptSegment[] => {
+    const parsedSegments = JSON.parse(text?.trim() || '[]');
+    return (Array.isArray(parsedSegments) ? parsedSegments : [])
+        .filter((segment: Partial<TranscriptSegment>) => typeof segment?.text === 'string' && segment.text.trim() !== '')
+        .map((segment: Partial<TranscriptSegment>) => ({
+            start: Number(segment.start) || 0,
+            end: Number(segment.end) || Number(segment.start) || 0,
+            speaker: segment.speaker?.trim() || 'Instructor',
+            text: segment.text!.trim(),
+        }));
+};
+
+const readAsBase64 = (file: File) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+        const base64Data = (reader.result as string).split(',', 2)[1];
+        if (base64Data) {
+            resolve(base64Data);
+        } else {
+            reject(new PipelineError('badMedia', "Could not read the file. Please try a different audio or video format."));
+        }
+    };
+    reader.onerror = () => reject(new PipelineError('badMedia', "Error reading file. It may be corrupted or in an unsupported format."));
+    reader.readAsDataURL(file);
+});
+
+
+
+// --- PIPELINE ---
+
+/** Small recordings are sent inline; larger ones are uploaded once and referenced by every chunk request. */
+export const prepareMedia = async (
+    ai: GoogleGenAI,
+    file: File,
+    onProgress: (progress: TranscriptionProgress) => void,
+    signal?: AbortSignal,
+): Promise<PreparedMedia> => {
+    if (file.size <= INLINE_SIZE_LIMIT) {
+        const data = await readAsBase64(file);
+        return { part: { inlineData: { data, mimeType: file.type } }, cleanup: async () => {} };
+    }
+
+    onProgress({ stage: 'uploading', completedChunks: 0, totalChunks: 0 });
+    let uploaded = await withRetry(() => ai.files.upload({ file, config: { mimeType: file.type, displayName: file.name, abortSignal: signal } }), { signal });
+    const name = uploaded.name!;
+    const remove = async () => {
+        try {
+            await ai.files.delete({ name });
+        } catch (err) {
+            console.error("Failed to delete uploaded recording", err);
+        }
+    };
+
+    onProgress({ stage: 'processing', completedChunks: 0, totalChunks: 0 });
+    try {
+        while (uploaded.state === FileState.PROCESSING) {
+            await delay(FILE_POLL_INTERVAL_MS, signal);
+            uploaded = await withRetry(() => ai.files.get({ name, config: { abortSignal: signal } }), { signal });
+        }
+    } catch (err) {
+        await remove();
+        throw err;
+    }
+    if (uploaded.state === FileState.FAILED || !uploaded.uri) {
+        await remove();
+        throw new PipelineError('badMedia', "The recording could not be processed after uploading. It may be corrupted or in an unsupported format.");
+    }
+
+    return {
+        part: createPartFromUri(uploaded.uri, uploaded.mimeType || file.type),
+        cleanup: remove,
+    };
+};
+
+const transcribeChunk = async (
+    ai: GoogleGenAI, media: Part, chunk: TimeChunk, totalChunks: number, { language, vocabulary, signal }: Pick<TranscribeOptions, 'language' | 'vocabulary' | 'signal'>,
+) => {
+    const range = totalChunks > 1
+        ? ` Only transcribe the part of the recording from ${formatOffset(chunk.start)} to ${formatOffset(chunk.end)} (mm:ss); ignore everything outside that range. Timestamps must still be measured from the beginning of the full recording.`
+        : '';
+    const spoken = language ? ` The lecture is in ${language}.` : '';
+    const terms = vocabulary?.length ? ` The course material uses these terms, names and symbols; when you hear them, spell them exactly like this: ${vocabulary.join(', ')}.` : '';
+    const prompt = `Transcribe the provided audio lecture precisely, in the language it is spoken in; do not translate it.${spoken}${terms}${range} Split the transcript into consecutive segments at every change of speaker or natural pause. For each segment give its "start" and "end" time in seconds from the beginning of the recording, a "speaker" label ("Instructor" for the lecturer, "Student" for anyone else) and the spoken "text". The output must be a single, valid JSON array of segments.`;
+
+    // A reply that doesn't parse is retried along with network and server failures.
+    return withRetry(async () => {
+        const result = await ai.models.generateContent({
+            model: TRANSCRIPTION_MODEL,
+            contents: { parts: [media, { text: prompt }] },
+            config: { responseMimeType: "application/json", responseSchema: transcriptSchema, abortSignal: signal },
+        });
+        const text = readResponseText(result, { structured: true });
+        try {
+            return parseSegments(text);
+        } catch (e) {
+            console.error("Transcript parsing error:", e);
+            console.error("Original text from API:", text);
+            throw new PipelineError('invalidResponse', "The transcript returned by the AI was not in the expected format. Please try again.");
+        }
+    }, { signal });
+};
+
+/**
+ * Transcribes a recording of the given duration (in seconds) into speaker-labelled segments.
+ * Long recordings are split into overlapping chunks, transcribed a few at a time and stitched back together.
+ * Progress is reported per finished chunk.
+ */
+export const transcribeMedia = async (
+    ai: GoogleGenAI,
+    file: File,
+    { duration, language, vocabulary, signal, onProgress = () => {} }: TranscribeOptions,
+): Promise<TranscriptSegment[]> => {
+    const media = await prepareMedia(ai, file, onProgress, signal);
+    try {
+        const chunks = planChunks(duration);
+        const results: TranscriptSegment[][] = new Array(chunks.length);
+        let completedChunks = 0;
+        let nextChunk = 0;
+        onProgress({ stage: 'transcribing', completedChunks, totalChunks: chunks.length });
+
+        // One failed chunk stops the others, and the upload is only deleted once none of them are still using it.
+        const controller = new AbortController();
+        const stop = () => controller.abort(signal?.reason);
+        signal?.addEventListener('abort', stop, { once: true });
+        let failure: unknown;
+        const worker = async () => {
+            while (nextChunk < chunks.length && !controller.signal.aborted) {
+                const chunk = chunks[nextChunk++];
+                try {
+                    results[chunk.index] = await transcribeChunk(ai, media.part, chunk, chunks.length, { language, vocabulary, signal: controller.signal });
+                } catch (err) {
+                    if (!controller.signal.aborted) {
+                        failure = err;
+                        controller.abort(err);
+                    }
+                    return;
+                }
+                completedChunks++;
+                onProgress({ stage: 'transcribing', completedChunks, totalChunks: chunks.length });
+            }
+        };
+        await Promise.allSettled(Array.from({ length: Math.min(MAX_PARALLEL_CHUNKS, chunks.length) }, worker));
+        signal?.removeEventListener('abort', stop);
+        signal?.throwIfAborted();
+        if (failure !== undefined) throw failure;
+
+        return stitchChunks(chunks, results);
+    } finally {
+        await media.cleanup();
+    }
+};
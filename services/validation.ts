@@ -0,0 +1,44 @@
+import { CourseReview, GlossaryItem, Slide, StudyMaterials, TranscriptSegment } from '../types';
+
+// Runtime checks for data that comes from outside the type system: model replies and imported backups.
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(entry => typeof entry === 'string');
+
+export const isGlossary = (value: unknown): value is GlossaryItem[] =>
+    Array.isArray(value) && value.every(entry => isRecord(entry) && typeof entry.term === 'string' && typeof entry.definition === 'string');
+
+export const isTranscriptSegments = (value: unknown): value is TranscriptSegment[] =>
+    Array.isArray(value) && value.every(segment => isRecord(segment) && typeof segment.start === 'number' && typeof segment.text === 'string');
+
+export const isSlides = (value: unknown): value is Slide[] =>
+    Array.isArray(value) && value.every(slide => isRecord(slide) && typeof slide.time === 'number' && typeof slide.image === 'string'
+        && typeof slide.text === 'string' && isStringArray(slide.formulas) && typeof slide.diagrams === 'string');
+
+export const isStudyMaterials = (value: unknown): value is StudyMaterials =>
+    isRecord(value)
+    && typeof value.summary === 'string'
+    && typeof value.transcript === 'string'
+    && typeof value.detailedNotes === 'string'
+    && isStringArray(value.keySections)
+    && isStringArray(value.formulas)
+    && isStringArray(value.examQuestions)
+    && isGlossary(value.glossary)
+    && (value.transcriptSegments === undefined || isTranscriptSegments(value.transcriptSegments))
+    && (value.originalTranscriptSegments === undefined || isTranscriptSegments(value.originalTranscriptSegments))
+    && (value.slides === undefined || isSlides(value.slides));
+
+export const isCourseReview = (value: unknown): value is CourseReview =>
+    isRecord(value)
+    && typeof value.id === 'number'
+    && typeof value.title === 'string'
+    && typeof value.summary === 'string'
+    && Array.isArray(value.lectures)
+    && Array.isArray(value.glossary)
+    && Array.isArray(value.formulas)
+    && Array.isArray(value.concepts) && value.concepts.every(concept => isRecord(concept) && typeof concept.id === 'string' && typeof concept.label === 'string')
+    && Array.isArray(value.links)
+    && Array.isArray(value.examQuestions);
@@ -0,0 +1,175 @@
+// A minimal ZIP reader and writer. Entries are written uncompressed, which keeps the implementation tiny and is
+// all the formats built on ZIP (like .docx) require; recordings are already compressed anyway. The reader also
+// inflates deflated entries (using the browser's DecompressionStream), so files saved by other programs, like
+// PowerPoint decks, can be read. Timestamps are fixed so the same input always gives the same bytes. ZIP64 is not
+// supported, so archives must stay under 4 GB.
+
+export interface ZipEntry {
+    name: string;
+    data: string | Uint8Array; // strings are written as UTF-8
+}
+
+export interface ZipBlobEntry {
+    name: string;
+    data: string | Uint8Array | Blob;
+}
+
+interface PreparedEntry {
+    name: Uint8Array;
+    crc: number;
+    size: number;
+    data: Uint8Array | Blob;
+}
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+    let crc = 0xffffffff;
+    for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const DOS_DATE_1980_01_01 = (0 << 9) | (1 << 5) | 1;
+const UTF8_FLAG = 1 << 11;
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+/** Lays out the local headers, data, central directory and end record. Blob data is passed through as-is. */
+const buildZipParts = (entries: PreparedEntry[]): (Uint8Array | Blob)[] => {
+    const localParts: (Uint8Array | Blob)[] = [];
+    const centralParts: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const { name, crc, size, data } of entries) {
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+        local.setUint16(4, 20, true); // version needed to extract
+        local.setUint16(6, UTF8_FLAG, true);
+        local.setUint16(8, 0, true); // stored
+        local.setUint16(10, 0, true); // time
+        local.setUint16(12, DOS_DATE_1980_01_01, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, size, true);
+        local.setUint32(22, size, true);
+        local.setUint16(26, name.length, true);
+        localParts.push(new Uint8Array(local.buffer), name, data);
+
+        const central = new DataView(new ArrayBuffer(46));
+        central.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+        central.setUint16(4, 20, true); // version made by
+        central.setUint16(6, 20, true);
+        central.setUint16(8, UTF8_FLAG, true);
+        central.setUint16(10, 0, true);
+        central.setUint16(12, 0, true);
+        central.setUint16(14, DOS_DATE_1980_01_01, true);
+        central.setUint32(16, crc, true);
+        central.setUint32(20, size, true);
+        central.setUint32(24, size, true);
+        central.setUint16(28, name.length, true);
+        central.setUint32(42, offset, true);
+        centralParts.push(new Uint8Array(central.buffer), name);
+
+        offset += 30 + name.length + size;
+    }
+
+    const centralSize = centralParts.reduce((total, part) => total + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+};
+
+export const createZip = (entries: ZipEntry[]): Uint8Array => {
+    const encoder = new TextEncoder();
+    const parts = buildZipParts(entries.map(entry => {
+        const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+        return { name: encoder.encode(entry.name), crc: crc32(data), size: data.length, data };
+    })) as Uint8Array[];
+
+    const zip = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let position = 0;
+    for (const part of parts) {
+        zip.set(part, position);
+        position += part.length;
+    }
+    return zip;
+};
+
+/**
+ * Like createZip, but accepts Blobs (such as recordings) and returns a Blob. Each Blob is read once for its
+ * checksum and then referenced rather than copied, so large archives don't have to fit in memory twice.
+ */
+export const createZipBlob = async (entries: ZipBlobEntry[], type = 'application/zip'): Promise<Blob> => {
+    const encoder = new TextEncoder();
+    const prepared: PreparedEntry[] = [];
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name);
+        if (entry.data instanceof Blob) {
+            prepared.push({ name, crc: crc32(new Uint8Array(await entry.data.arrayBuffer())), size: entry.data.size, data: entry.data });
+        } else {
+            const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+            prepared.push({ name, crc: crc32(data), size: data.length, data });
+        }
+    }
+    return new Blob(buildZipParts(prepared), { type });
+};
+
+const inflate = (data: Blob) => new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+
+/** Lists the entries of an archive. Stored entries are returned as slices of the input, deflated ones inflated. */
+export const readZip = async (zip: Blob): Promise<Map<string, Blob>> => {
+    const tailStart = Math.max(0, zip.size - 22 - 0xffff); // the end record is followed by at most a 64 KB comment
+    const tail = new DataView(await zip.slice(tailStart).arrayBuffer());
+    let endOffset = -1;
+    for (let i = tail.byteLength - 22; i >= 0; i--) {
+        if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+            endOffset = i;
+            break;
+        }
+    }
+    if (endOffset === -1) throw new Error('The file is not a ZIP archive.');
+
+    const entryCount = tail.getUint16(endOffset + 10, true);
+    const centralSize = tail.getUint32(endOffset + 12, true);
+    const centralOffset = tail.getUint32(endOffset + 16, true);
+    const central = new DataView(await zip.slice(centralOffset, centralOffset + centralSize).arrayBuffer());
+    const decoder = new TextDecoder();
+
+    const entries = new Map<string, Blob>();
+    let position = 0;
+    for (let i = 0; i < entryCount; i++) {
+        if (position + 46 > central.byteLength || central.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) {
+            throw new Error('The ZIP archive is damaged.');
+        }
+        const method = central.getUint16(position + 10, true);
+        const compressedSize = central.getUint32(position + 20, true);
+        const nameLength = central.getUint16(position + 28, true);
+        const extraLength = central.getUint16(position + 30, true);
+        const commentLength = central.getUint16(position + 32, true);
+        const localOffset = central.getUint32(position + 42, true);
+        const name = decoder.decode(new Uint8Array(central.buffer, position + 46, nameLength));
+        if (method !== 0 && method !== 8) throw new Error(`"${name}" in the ZIP archive is compressed in a way that is not supported.`);
+
+        const local = new DataView(await zip.slice(localOffset, localOffset + 30).arrayBuffer());
+        if (local.byteLength < 30 || local.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) throw new Error('The ZIP archive is damaged.');
+        const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+        const data = zip.slice(dataStart, dataStart + compressedSize);
+        entries.set(name, method === 8 ? await inflate(data) : data);
+        position += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+};
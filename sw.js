@@ -0,0 +1,45 @@
+// The service worker that makes the installed app work offline. It isn't bundled: the build copies it to
+// the output with PRECACHE (every file of the build) and VERSION defined at the top. The app shell is
+// served from the cache, so saved lectures, notes, flashcards and exports all work without a network, and
+// Google Fonts are cached as they're used. Everything else, including the Gemini API, goes to the network.
+
+const CACHE = `class-whisper-${VERSION}`;
+const FONTS_CACHE = 'class-whisper-fonts';
+const FONT_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com'];
+
+self.addEventListener('install', event => {
+    event.waitUntil(caches.open(CACHE).then(cache => cache.addAll(PRECACHE)).then(() => self.skipWaiting()));
+});
+
+// Each build has its own cache; older ones are dropped once the new one has taken over.
+self.addEventListener('activate', event => {
+    event.waitUntil(caches.keys()
+        .then(keys => Promise.all(keys.filter(key => key !== CACHE && key !== FONTS_CACHE).map(key => caches.delete(key))))
+        .then(() => self.clients.claim()));
+});
+
+const cacheFirst = async (request, cached) => (await caches.match(cached ?? request, { cacheName: CACHE })) ?? fetch(request);
+
+const staleWhileRevalidate = async request => {
+    const cache = await caches.open(FONTS_CACHE);
+    const cached = await cache.match(request);
+    const fresh = fetch(request).then(response => {
+        if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+        return response;
+    });
+    if (!cached) return fresh;
+    fresh.catch(() => {}); // offline: the cached copy will do
+    return cached;
+};
+
+self.addEventListener('fetch', event => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+    const url = new URL(request.url);
+    if (url.origin === self.location.origin) {
+        // Every page of the app is index.html.
+        event.respondWith(cacheFirst(request, request.mode === 'navigate' ? 'index.html' : undefined));
+    } else if (FONT_HOSTS.includes(url.hostname)) {
+        event.respondWith(staleWhileRevalidate(request));
+    }
+});
@@ -0,0 +1,194 @@
+// --- INTERFACES ---
+export interface GlossaryItem {
+  term: string;
+  definition: string;
+}
+
+export interface TranscriptSegment {
+  start: number; // seconds from the beginning of the recording
+  end: number;
+  speaker: string; // e.g. "Instructor" or "Student"
+  text: string;
+}
+
+export interface MultipleChoiceQuestion {
+  type: 'mcq';
+  question: string;
+  options: string[];
+  correctIndex: number;
+  explanation: string;
+}
+
+export interface ShortAnswerQuestion {
+  type: 'short';
+  question: string;
+  rubric: string;
+}
+
+export type QuizQuestion = MultipleChoiceQuestion | ShortAnswerQuestion;
+
+// A frame captured from a video lecture when the slide or whiteboard changed.
+export interface SlideFrame {
+  time: number; // seconds from the beginning of the recording
+  image: string; // a JPEG thumbnail, as a data URL
+}
+
+export interface Slide extends SlideFrame {
+  text: string; // everything readable on it, as markdown
+  formulas: string[]; // LaTeX, like StudyMaterials.formulas
+  diagrams: string; // a description of any diagrams or drawings; empty if there are none
+}
+
+export interface StudyMaterials {
+  summary: string;
+  keySections: string[];
+  formulas: string[];
+  glossary: GlossaryItem[];
+  examQuestions: string[];
+  transcript: string;
+  // Older history entries only have the plain transcript string.
+  transcriptSegments?: TranscriptSegment[];
+  // The transcript as spoken, kept when the lecture was translated into another language.
+  // Its segments line up one-to-one with `transcriptSegments`.
+  originalTranscript?: string;
+  originalTranscriptSegments?: TranscriptSegment[];
+  detailedNotes: string;
+  // Missing on entries saved before quizzes were added.
+  quiz?: QuizQuestion[];
+  // Video lectures only. The detailed notes embed these as ![Slide N](slide-N), numbered from 1.
+  slides?: Slide[];
+}
+
+export interface Flashcard {
+  id: string;
+  kind: 'glossary' | 'question';
+  front: string;
+  back: string;
+  // SM-2 scheduling state
+  repetitions: number;
+  interval: number; // days
+  easeFactor: number;
+  dueDate: number; // timestamp (ms)
+}
+
+export interface QuizAnswerResult {
+  response: string | number | null; // option index for MCQs, free text for short answers
+  score: number; // 0 to 1
+  feedback: string;
+}
+
+export interface QuizAttempt {
+  id: number; // timestamp of the attempt
+  results: QuizAnswerResult[]; // one per question, in quiz order
+  score: number;
+  maxScore: number;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  text: string;
+  timestamp: number;
+  // Assistant replies only: the passages the answer is based on, and whether the question could be answered.
+  // Passages are indices into `transcriptSegments`, or into the transcript's lines for older entries.
+  citations?: number[];
+  status?: 'answered' | 'off_topic' | 'ungrounded';
+}
+
+// The parts of the study guide a student can edit or regenerate on their own.
+export type EditableSection = 'summary' | 'keySections' | 'formulas' | 'glossary' | 'examQuestions' | 'detailedNotes';
+
+export interface MaterialsRevision {
+  id: number;
+  timestamp: number;
+  section: EditableSection;
+  change: 'edit' | 'regenerate' | 'restore';
+  guidance?: string; // what the student asked for when regenerating
+  previous: StudyMaterials[EditableSection]; // the section as it was before this change
+}
+
+// The steps that turn a recording into study materials, in order.
+export type GenerationStep = 'transcription' | 'translation' | 'slides' | 'studyGuide' | 'detailedNotes';
+
+export interface LectureLanguage {
+  source: string; // the spoken language, e.g. "Spanish"
+  target: string; // the language the study materials are written in
+  detected: boolean; // whether the spoken language was detected rather than chosen
+}
+
+// The optional parts of a study guide a template can switch off. The summary is always generated.
+export type TemplateSection = 'keySections' | 'formulas' | 'glossary' | 'examQuestions' | 'quiz' | 'detailedNotes' | 'slides';
+
+export interface StudyGuideTemplate {
+  id: string;
+  name: string;
+  sections: TemplateSection[];
+  examQuestionCount: number;
+  quizQuestionCount: number;
+  difficulty: 'introductory' | 'standard' | 'challenging'; // of the exam questions and quiz
+  notesLength: 'brief' | 'standard' | 'comprehensive';
+  notesStyle: 'standard' | 'cornell' | 'outline' | 'qa';
+  customInstructions: string;
+  model: string; // the language model that writes the study guide and notes
+}
+
+// Slides or readings the student attached to a lecture, used as reference material when it is generated.
+// PowerPoint decks and text files are kept as their text; PDFs are kept whole and given to the model as they are.
+export interface ReferenceDocument {
+    name: string;
+    type: 'pdf' | 'pptx' | 'text';
+    content: string; // base64 for PDFs, otherwise the text
+}
+
+// A course's spelling of a name or term, with the ways transcription has got it wrong before.
+export interface VocabularyEntry {
+    term: string;
+    mistakes: string[]; // replaced with `term` in new transcripts
+}
+
+export interface HistoryItem {
+    id: number;
+    filename: string;
+    materials: StudyMaterials;
+    // Library organization, all optional and user-edited.
+    title?: string; // shown instead of the filename when set
+    course?: string;
+    tags?: string[];
+    lectureDate?: string; // YYYY-MM-DD
+    flashcards?: Flashcard[];
+    quizAttempts?: QuizAttempt[];
+    chat?: ChatMessage[];
+    revisions?: MaterialsRevision[]; // newest first
+    language?: LectureLanguage; // missing on entries saved before language options were added (English)
+    template?: StudyGuideTemplate; // a copy of the settings it was generated with; missing on older entries (the default template)
+    references?: ReferenceDocument[];
+    transcriptEdited?: boolean; // the transcript was corrected after the study guide was written from it
+    // Only set while generation is unfinished (it failed or was cancelled part-way). The materials then hold
+    // what was finished, with the rest left empty, and generation can resume after the last completed step.
+    completedSteps?: GenerationStep[];
+}
+
+// A review guide combining several saved lectures, e.g. everything before a midterm. Lecture ids refer to
+// history items; `lectures` keeps their titles so the review still reads well if one is deleted later.
+export interface CourseReview {
+  id: number; // timestamp
+  title: string;
+  lectures: { id: number, title: string }[]; // in the order they were given
+  summary: string;
+  glossary: (GlossaryItem & { lectureIds: number[] })[];
+  formulas: { latex: string, lectureIds: number[] }[];
+  concepts: ConceptNode[];
+  links: ConceptLink[];
+  examQuestions: { question: string, topic: string, lectureIds: number[] }[];
+}
+
+export interface ConceptNode {
+  id: string;
+  label: string;
+  lectureIds: number[]; // where it is covered
+}
+
+export interface ConceptLink {
+  source: string; // concept ids
+  target: string;
+  relation: string; // e.g. "is a special case of"
+}
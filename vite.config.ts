@@ -1,9 +1,38 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
+
+// Emits the service worker (sw.js) with the list of files to precache: everything in the build, plus the
+// public folder. Its version is a hash of those files, so each build that changes anything replaces the
+// cache of the one before.
+const serviceWorker = (): Plugin => ({
+    name: 'class-whisper-service-worker',
+    apply: 'build',
+    enforce: 'post', // after index.html has been emitted
+    generateBundle(_, bundle) {
+        const publicDir = path.resolve(__dirname, 'public');
+        const publicFiles = fs.existsSync(publicDir) ? fs.readdirSync(publicDir) : [];
+        const files = [...Object.keys(bundle), ...publicFiles].sort();
+        const hash = createHash('sha256');
+        for (const file of files) {
+            const output = bundle[file];
+            const content = !output ? fs.readFileSync(path.join(publicDir, file)) : output.type === 'chunk' ? output.code : output.source;
+            hash.update(file).update(content);
+        }
+        const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf8');
+        this.emitFile({
+            type: 'asset',
+            fileName: 'sw.js',
+            source: `const PRECACHE = ${JSON.stringify(files)};\nconst VERSION = '${hash.digest('hex').slice(0, 12)}';\n\n${source}`,
+        });
+    },
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      plugins: [serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)